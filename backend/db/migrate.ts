@@ -0,0 +1,141 @@
+import type pg from 'pg'
+import { pool } from './pool.js'
+import { log } from '../logger.js'
+import { MIGRATIONS, type Migration } from './migrations/index.js'
+
+// Held for the whole run so instances booting together migrate one at a time
+const MIGRATION_LOCK_KEY = 720_180_001
+
+export type MigrationStatus = {
+  version: number
+  name: string
+  appliedAt: Date | null
+}
+
+function checkMigrationOrder(migrations: Migration[]) {
+  migrations.forEach((m, i) => {
+    if (i > 0 && m.version <= migrations[i - 1].version) {
+      throw new Error(`Migration ${m.version} (${m.name}) is out of order`)
+    }
+  })
+}
+
+/**
+ * Run fn on a dedicated connection holding the migration advisory lock, with
+ * the schema_migrations table in place.
+ */
+async function withMigrationLock<T>(fn: (client: pg.PoolClient) => Promise<T>) {
+  checkMigrationOrder(MIGRATIONS)
+  const client = await pool.connect()
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY])
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version int PRIMARY KEY,
+          name text NOT NULL,
+          applied_at timestamptz NOT NULL DEFAULT now()
+        )
+      `)
+      return await fn(client)
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {})
+    }
+  } finally {
+    client.release()
+  }
+}
+
+async function appliedVersions(client: pg.PoolClient) {
+  const r = await client.query<{ version: number; name: string; applied_at: Date }>(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version'
+  )
+  return r.rows
+}
+
+async function runInTransaction(client: pg.PoolClient, fn: () => Promise<void>) {
+  await client.query('BEGIN')
+  try {
+    await fn()
+    await client.query('COMMIT')
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {})
+    throw err
+  }
+}
+
+/**
+ * Apply pending migrations in order, up to and including `to` (default: all).
+ * Returns the migrations that were applied. A database that has versions this
+ * build doesn't know (a newer release ran against it) is left alone apart
+ * from a warning.
+ */
+export async function migrateUp(opts: { to?: number } = {}) {
+  return withMigrationLock(async (client) => {
+    const applied = await appliedVersions(client)
+    const known = new Set(MIGRATIONS.map((m) => m.version))
+    const unknown = applied.filter((a) => !known.has(a.version))
+    if (unknown.length) {
+      log('warn', 'db.migrate.unknown_versions', { versions: unknown.map((a) => a.version) })
+    }
+
+    const done = new Set(applied.map((a) => a.version))
+    const pending = MIGRATIONS.filter((m) => !done.has(m.version) && (opts.to === undefined || m.version <= opts.to))
+
+    for (const m of pending) {
+      const startedAt = Date.now()
+      await runInTransaction(client, async () => {
+        await client.query(m.up)
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [m.version, m.name])
+      })
+      log('info', 'db.migrate.applied', { version: m.version, name: m.name, durationMs: Date.now() - startedAt })
+    }
+    return pending
+  })
+}
+
+/**
+ * Roll back applied migrations, newest first: the last `steps` of them
+ * (default 1), or every one above version `to`. Returns the migrations that
+ * were rolled back.
+ */
+export async function migrateDown(opts: { steps?: number; to?: number } = {}) {
+  return withMigrationLock(async (client) => {
+    const done = new Set((await appliedVersions(client)).map((a) => a.version))
+    const applied = MIGRATIONS.filter((m) => done.has(m.version)).reverse()
+    const { to } = opts
+    const targets = to !== undefined ? applied.filter((m) => m.version > to) : applied.slice(0, opts.steps ?? 1)
+
+    for (const m of targets) {
+      const startedAt = Date.now()
+      await runInTransaction(client, async () => {
+        await client.query(m.down)
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [m.version])
+      })
+      log('info', 'db.migrate.rolled_back', { version: m.version, name: m.name, durationMs: Date.now() - startedAt })
+    }
+    return targets
+  })
+}
+
+/**
+ * Every known migration with when it was applied (null if pending), plus any
+ * applied versions this build doesn't know about.
+ */
+export async function getMigrationStatus() {
+  return withMigrationLock(async (client) => {
+    const applied = await appliedVersions(client)
+    const appliedAt = new Map(applied.map((a) => [a.version, a.applied_at]))
+    const known = new Set(MIGRATIONS.map((m) => m.version))
+
+    const migrations: MigrationStatus[] = MIGRATIONS.map((m) => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: appliedAt.get(m.version) ?? null
+    }))
+    const unknown: MigrationStatus[] = applied
+      .filter((a) => !known.has(a.version))
+      .map((a) => ({ version: a.version, name: a.name, appliedAt: a.applied_at }))
+    return { migrations, unknown }
+  })
+}
@@ -0,0 +1,64 @@
+import { parseArgs } from 'node:util'
+import { pool } from './pool.js'
+import { migrateDatabase } from './init.js'
+import { getMigrationStatus, migrateDown } from './migrate.js'
+
+const USAGE = `Usage: npm run migrate -- <command> [options]
+
+Commands:
+  up       apply pending migrations (--to <version> to stop early)
+  down     roll back the latest migration (--steps <n>, or --to <version> to keep up to it)
+  status   list migrations and whether each is applied`
+
+function parseVersion(value: string | undefined, flag: string) {
+  if (value === undefined) return undefined
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${flag} must be a non-negative integer`)
+  return n
+}
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: { to: { type: 'string' }, steps: { type: 'string' } }
+  })
+  const to = parseVersion(values.to, '--to')
+  const steps = parseVersion(values.steps, '--steps')
+
+  switch (positionals[0]) {
+    case 'up': {
+      const applied = await migrateDatabase({ to })
+      if (applied.length === 0) console.log('Already up to date.')
+      for (const m of applied) console.log(`Applied ${m.version} ${m.name}`)
+      return
+    }
+    case 'down': {
+      const rolledBack = await migrateDown({ to, steps })
+      if (rolledBack.length === 0) console.log('Nothing to roll back.')
+      for (const m of rolledBack) console.log(`Rolled back ${m.version} ${m.name}`)
+      return
+    }
+    case 'status': {
+      const { migrations, unknown } = await getMigrationStatus()
+      for (const m of migrations) {
+        console.log(`${String(m.version).padStart(4, '0')}  ${m.name.padEnd(32)}  ${m.appliedAt?.toISOString() ?? 'pending'}`)
+      }
+      for (const m of unknown) {
+        console.log(`${String(m.version).padStart(4, '0')}  ${m.name.padEnd(32)}  applied, not in this build`)
+      }
+      return
+    }
+    default:
+      console.log(USAGE)
+      process.exitCode = positionals[0] ? 1 : 0
+  }
+}
+
+try {
+  await main()
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+} finally {
+  await pool.end()
+}
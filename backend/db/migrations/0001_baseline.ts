@@ -0,0 +1,266 @@
+import type { Migration } from './types.js'
+
+/**
+ * The schema as it stood when migrations were introduced, previously created
+ * on every boot by db/init.ts. Everything is IF NOT EXISTS so databases that
+ * already have it adopt this version without changes.
+ */
+export const baseline: Migration = {
+  version: 1,
+  name: 'baseline',
+  up: `
+  CREATE TABLE IF NOT EXISTS conversations (
+    id uuid PRIMARY KEY,
+    created_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  -- Ownership for human handoff: who is currently answering the customer.
+  ALTER TABLE conversations ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'ai'
+    CHECK (status IN ('ai', 'pending_human', 'human', 'closed'));
+  ALTER TABLE conversations ADD COLUMN IF NOT EXISTS assigned_operator text;
+  ALTER TABLE conversations ADD COLUMN IF NOT EXISTS escalation_reason text;
+  ALTER TABLE conversations ADD COLUMN IF NOT EXISTS escalated_at timestamptz;
+
+  CREATE INDEX IF NOT EXISTS idx_conversations_status ON conversations (status);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    id uuid PRIMARY KEY,
+    conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    sender text NOT NULL CHECK (sender IN ('user', 'ai', 'agent')),
+    text text NOT NULL,
+    interrupted boolean NOT NULL DEFAULT false,
+    created_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  -- Added after the initial schema; keeps existing databases in step.
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS interrupted boolean NOT NULL DEFAULT false;
+
+  -- Bumped on every insertMessage; drives the operator inbox ordering.
+  -- Backfilled from existing messages the first time the column is added.
+  DO $$
+  BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'conversations' AND column_name = 'last_activity_at'
+    ) THEN
+      ALTER TABLE conversations ADD COLUMN last_activity_at timestamptz NOT NULL DEFAULT now();
+      UPDATE conversations c
+      SET last_activity_at = COALESCE(
+        (SELECT max(m.created_at) FROM messages m WHERE m.conversation_id = c.id),
+        c.created_at
+      );
+    END IF;
+  END $$;
+
+  CREATE INDEX IF NOT EXISTS idx_conversations_last_activity
+    ON conversations (last_activity_at DESC, id DESC);
+
+  -- Older databases only allow ('user', 'ai'); widen the check to human agents once.
+  DO $$
+  BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_constraint
+      WHERE conrelid = 'messages'::regclass
+        AND conname = 'messages_sender_check'
+        AND pg_get_constraintdef(oid) LIKE '%agent%'
+    ) THEN
+      ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_sender_check;
+      ALTER TABLE messages ADD CONSTRAINT messages_sender_check CHECK (sender IN ('user', 'ai', 'agent'));
+    END IF;
+  END $$;
+
+  CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at_id_desc
+    ON messages (conversation_id, created_at DESC, id DESC);
+
+  -- Knowledge base: policy documents with an immutable revision history.
+  -- title/body on kb_documents mirror the latest revision; only the revision
+  -- referenced by published_revision_id is visible to the support agent.
+  CREATE TABLE IF NOT EXISTS kb_documents (
+    id uuid PRIMARY KEY,
+    slug text NOT NULL UNIQUE,
+    title text NOT NULL,
+    body text NOT NULL,
+    latest_revision int NOT NULL DEFAULT 1,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE IF NOT EXISTS kb_document_revisions (
+    id uuid PRIMARY KEY,
+    document_id uuid NOT NULL REFERENCES kb_documents(id) ON DELETE CASCADE,
+    revision int NOT NULL,
+    title text NOT NULL,
+    body text NOT NULL,
+    note text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (document_id, revision)
+  );
+
+  ALTER TABLE kb_documents ADD COLUMN IF NOT EXISTS published_revision_id uuid
+    REFERENCES kb_document_revisions(id) ON DELETE SET NULL;
+
+  -- Chunks belong to a revision, so ids recorded on past AI messages stay
+  -- resolvable after the document is edited.
+  CREATE TABLE IF NOT EXISTS kb_chunks (
+    id uuid PRIMARY KEY,
+    document_id uuid NOT NULL REFERENCES kb_documents(id) ON DELETE CASCADE,
+    revision_id uuid NOT NULL REFERENCES kb_document_revisions(id) ON DELETE CASCADE,
+    chunk_index int NOT NULL,
+    text text NOT NULL,
+    tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', text)) STORED,
+    UNIQUE (revision_id, chunk_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_kb_chunks_tsv ON kb_chunks USING GIN (tsv);
+
+  -- Verified customers; conversations are linked once the visitor proves their email.
+  CREATE TABLE IF NOT EXISTS customers (
+    id uuid PRIMARY KEY,
+    email text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    last_verified_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS uq_customers_email ON customers (lower(email));
+
+  ALTER TABLE conversations ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+  -- Set when a session token is first issued for the conversation; after that
+  -- only the token holder can use it.
+  ALTER TABLE conversations ADD COLUMN IF NOT EXISTS token_bound_at timestamptz;
+
+  CREATE INDEX IF NOT EXISTS idx_conversations_customer ON conversations (customer_id);
+
+  -- The visitor (session token) that started each conversation. A visitor's
+  -- first conversation shares the session's id, so older rows backfill to their own id.
+  DO $$
+  BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'conversations' AND column_name = 'visitor_id'
+    ) THEN
+      ALTER TABLE conversations ADD COLUMN visitor_id uuid;
+      UPDATE conversations SET visitor_id = id;
+      ALTER TABLE conversations ALTER COLUMN visitor_id SET NOT NULL;
+    END IF;
+  END $$;
+
+  CREATE INDEX IF NOT EXISTS idx_conversations_visitor ON conversations (visitor_id, last_activity_at DESC, id DESC);
+
+  -- One-time email codes; only a hash of the code is stored.
+  CREATE TABLE IF NOT EXISTS customer_verification_codes (
+    id uuid PRIMARY KEY,
+    session_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    email text NOT NULL,
+    code_hash text NOT NULL,
+    attempts int NOT NULL DEFAULT 0,
+    expires_at timestamptz NOT NULL,
+    consumed_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_verification_codes_session ON customer_verification_codes (session_id, created_at);
+
+  -- Orders for the order-status tool when ORDER_PROVIDER=postgres.
+  CREATE TABLE IF NOT EXISTS orders (
+    order_number text PRIMARY KEY,
+    email text NOT NULL,
+    status text NOT NULL CHECK (status IN ('processing', 'shipped', 'out_for_delivery', 'delivered', 'cancelled')),
+    items jsonb NOT NULL DEFAULT '[]',
+    placed_at timestamptz NOT NULL,
+    shipped_at timestamptz,
+    delivered_at timestamptz,
+    carrier text,
+    tracking_number text,
+    estimated_delivery date,
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  -- Customer return requests, created by the agent from chat and decided by staff.
+  CREATE TABLE IF NOT EXISTS return_requests (
+    id uuid PRIMARY KEY,
+    conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    order_number text NOT NULL,
+    email text NOT NULL,
+    items jsonb NOT NULL,
+    reason text NOT NULL,
+    status text NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'approved', 'rejected', 'refunded')),
+    decision_note text,
+    decided_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_return_requests_status ON return_requests (status, created_at);
+  CREATE INDEX IF NOT EXISTS idx_return_requests_conversation ON return_requests (conversation_id);
+
+  -- One live return per order; a rejected one can be followed by a new request.
+  CREATE UNIQUE INDEX IF NOT EXISTS uq_return_requests_active_order
+    ON return_requests (upper(order_number)) WHERE status <> 'rejected';
+
+  -- Rolling summary of the turns that no longer fit in the prompt, up to and
+  -- including message (through_created_at, through_message_id).
+  CREATE TABLE IF NOT EXISTS conversation_summaries (
+    conversation_id uuid PRIMARY KEY REFERENCES conversations(id) ON DELETE CASCADE,
+    summary text NOT NULL,
+    through_created_at timestamptz NOT NULL,
+    through_message_id uuid NOT NULL,
+    summarized_messages int NOT NULL,
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  -- Every tool the model called while producing an AI message.
+  CREATE TABLE IF NOT EXISTS llm_tool_calls (
+    id uuid PRIMARY KEY,
+    message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    tool_name text NOT NULL,
+    args jsonb NOT NULL,
+    ok boolean NOT NULL,
+    result text NOT NULL,
+    duration_ms int NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_llm_tool_calls_message ON llm_tool_calls (message_id);
+
+  -- Token buckets for RATE_LIMIT_STORE=postgres. Rows past expires_at are full buckets and get swept.
+  CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    key text PRIMARY KEY,
+    tokens double precision NOT NULL,
+    updated_at timestamptz NOT NULL,
+    expires_at timestamptz NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires ON rate_limit_buckets (expires_at);
+
+  -- Token usage and estimated cost of every LLM call: replies (with the AI message they
+  -- produced) and conversation summaries. cost_usd is null when the model's price is unknown.
+  CREATE TABLE IF NOT EXISTS llm_calls (
+    id uuid PRIMARY KEY,
+    conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+    purpose text NOT NULL CHECK (purpose IN ('reply', 'summary')),
+    model text NOT NULL,
+    prompt_tokens int NOT NULL,
+    completion_tokens int NOT NULL,
+    cost_usd numeric(14, 8),
+    latency_ms int NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_llm_calls_created ON llm_calls (created_at);
+  CREATE INDEX IF NOT EXISTS idx_llm_calls_conversation ON llm_calls (conversation_id, created_at);
+
+  -- Who triggered the call, for per-IP daily token budgets. Null for summaries.
+  ALTER TABLE llm_calls ADD COLUMN IF NOT EXISTS client_ip text;
+  CREATE INDEX IF NOT EXISTS idx_llm_calls_client_ip ON llm_calls (client_ip, created_at);
+
+  -- Which knowledge-base chunks were injected into the prompt for an AI reply.
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS kb_chunk_ids uuid[] NOT NULL DEFAULT '{}';
+`,
+  down: `
+  DROP TABLE IF EXISTS
+    llm_calls, rate_limit_buckets, llm_tool_calls, conversation_summaries, return_requests, orders,
+    customer_verification_codes, kb_chunks, kb_document_revisions, kb_documents, messages, conversations, customers;
+`
+}
@@ -0,0 +1,33 @@
+import type { Migration } from './types.js'
+
+/**
+ * Audit trail for conversations deleted or anonymized, by the retention job
+ * or on request. conversation_id deliberately has no foreign key: the row
+ * must outlive the conversation it describes.
+ */
+export const dataErasures: Migration = {
+  version: 2,
+  name: 'data_erasures',
+  up: `
+  CREATE TABLE data_erasures (
+    id uuid PRIMARY KEY,
+    conversation_id uuid NOT NULL,
+    customer_id uuid,
+    action text NOT NULL CHECK (action IN ('deleted', 'anonymized')),
+    trigger text NOT NULL CHECK (trigger IN ('retention', 'request')),
+    reason text,
+    message_count int NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE INDEX idx_data_erasures_created ON data_erasures (created_at DESC);
+  CREATE INDEX idx_data_erasures_conversation ON data_erasures (conversation_id);
+
+  -- Set once a conversation's personal data has been scrubbed by retention.
+  ALTER TABLE conversations ADD COLUMN anonymized_at timestamptz;
+`,
+  down: `
+  ALTER TABLE conversations DROP COLUMN anonymized_at;
+  DROP TABLE data_erasures;
+`
+}
@@ -0,0 +1,16 @@
+import type { Migration } from './types.js'
+
+/**
+ * Flag messages whose text contains personal data (see services/redaction.ts).
+ * Set when a message is stored; messages from before this migration stay false.
+ */
+export const messagePiiFlag: Migration = {
+  version: 3,
+  name: 'message_pii_flag',
+  up: `
+  ALTER TABLE messages ADD COLUMN contains_pii boolean NOT NULL DEFAULT false;
+`,
+  down: `
+  ALTER TABLE messages DROP COLUMN contains_pii;
+`
+}
@@ -0,0 +1,52 @@
+import type { Migration } from './types.js'
+
+// Matches DEFAULT_STORE_ID in repos/storeRepo.ts
+const DEFAULT_STORE_ID = '00000000-0000-0000-0000-000000000001'
+
+/**
+ * Storefronts served by this backend. Everything that existed before belongs
+ * to the 'default' store. Conversations and knowledge-base documents are
+ * owned by a store; slugs only need to be unique within one.
+ *
+ * system_prompt and model are NULL to use the built-in prompt and LLM_MODEL.
+ */
+export const stores: Migration = {
+  version: 4,
+  name: 'stores',
+  up: `
+  CREATE TABLE stores (
+    id uuid PRIMARY KEY,
+    key text NOT NULL UNIQUE,
+    name text NOT NULL,
+    system_prompt text,
+    model text,
+    cors_origins text[] NOT NULL DEFAULT '{}',
+    branding jsonb NOT NULL DEFAULT '{}',
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  INSERT INTO stores (id, key, name) VALUES ('${DEFAULT_STORE_ID}', 'default', 'Default store');
+
+  -- The temporary default assigns existing rows to the default store; new rows must name theirs
+  ALTER TABLE conversations ADD COLUMN store_id uuid NOT NULL DEFAULT '${DEFAULT_STORE_ID}' REFERENCES stores(id);
+  ALTER TABLE conversations ALTER COLUMN store_id DROP DEFAULT;
+  CREATE INDEX idx_conversations_store_activity ON conversations (store_id, last_activity_at DESC, id DESC);
+
+  ALTER TABLE kb_documents ADD COLUMN store_id uuid NOT NULL DEFAULT '${DEFAULT_STORE_ID}' REFERENCES stores(id) ON DELETE CASCADE;
+  ALTER TABLE kb_documents ALTER COLUMN store_id DROP DEFAULT;
+  ALTER TABLE kb_documents DROP CONSTRAINT kb_documents_slug_key;
+  ALTER TABLE kb_documents ADD CONSTRAINT kb_documents_store_slug_key UNIQUE (store_id, slug);
+`,
+  down: `
+  ALTER TABLE kb_documents DROP CONSTRAINT kb_documents_store_slug_key;
+  DELETE FROM kb_documents WHERE store_id <> '${DEFAULT_STORE_ID}';
+  ALTER TABLE kb_documents ADD CONSTRAINT kb_documents_slug_key UNIQUE (slug);
+  ALTER TABLE kb_documents DROP COLUMN store_id;
+
+  DELETE FROM conversations WHERE store_id <> '${DEFAULT_STORE_ID}';
+  ALTER TABLE conversations DROP COLUMN store_id;
+
+  DROP TABLE stores;
+`
+}
@@ -0,0 +1,20 @@
+import type { Migration } from './types.js'
+
+/**
+ * The id a client generated for a message it sent. Unique per conversation,
+ * so a retried send stores the message once (see insertMessage).
+ */
+export const messageClientId: Migration = {
+  version: 5,
+  name: 'message_client_id',
+  up: `
+  ALTER TABLE messages ADD COLUMN client_message_id uuid;
+
+  CREATE UNIQUE INDEX idx_messages_client_id ON messages (conversation_id, client_message_id)
+    WHERE client_message_id IS NOT NULL;
+`,
+  down: `
+  DROP INDEX idx_messages_client_id;
+  ALTER TABLE messages DROP COLUMN client_message_id;
+`
+}
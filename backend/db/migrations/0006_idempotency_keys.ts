@@ -0,0 +1,30 @@
+import type { Migration } from './types.js'
+
+/**
+ * Idempotency keys for POST /message (see services/idempotency), when
+ * IDEMPOTENCY_STORE=postgres. A row with no response is a request still in
+ * flight, held until locked_until; a completed one keeps the response to
+ * replay until expires_at.
+ */
+export const idempotencyKeys: Migration = {
+  version: 6,
+  name: 'idempotency_keys',
+  up: `
+  CREATE TABLE idempotency_keys (
+    conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    key text NOT NULL,
+    fingerprint text NOT NULL,
+    response_status int,
+    response_body jsonb,
+    locked_until timestamptz,
+    expires_at timestamptz NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (conversation_id, key)
+  );
+
+  CREATE INDEX idx_idempotency_keys_expires ON idempotency_keys (expires_at);
+`,
+  down: `
+  DROP TABLE idempotency_keys;
+`
+}
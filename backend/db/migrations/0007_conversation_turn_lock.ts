@@ -0,0 +1,22 @@
+import type { Migration } from './types.js'
+
+/**
+ * A lease on a conversation for the customer turn being answered (see
+ * services/turnLock.ts), so two messages in one conversation are answered one
+ * after the other. turn_token identifies the holder; the lease ends at
+ * turn_locked_until even if the holder never releases it.
+ */
+export const conversationTurnLock: Migration = {
+  version: 7,
+  name: 'conversation_turn_lock',
+  up: `
+  ALTER TABLE conversations
+    ADD COLUMN turn_token uuid,
+    ADD COLUMN turn_locked_until timestamptz;
+`,
+  down: `
+  ALTER TABLE conversations
+    DROP COLUMN turn_locked_until,
+    DROP COLUMN turn_token;
+`
+}
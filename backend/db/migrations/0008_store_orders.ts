@@ -0,0 +1,41 @@
+import type { Migration } from './types.js'
+
+// Matches DEFAULT_STORE_ID in repos/storeRepo.ts
+const DEFAULT_STORE_ID = '00000000-0000-0000-0000-000000000001'
+
+/**
+ * Orders and return requests belong to a store, so one storefront's customers
+ * can't look up or return another's orders. Order numbers only need to be
+ * unique within a store; existing orders go to the 'default' store and
+ * existing return requests to their conversation's store.
+ */
+export const storeOrders: Migration = {
+  version: 8,
+  name: 'store_orders',
+  up: `
+  ALTER TABLE orders ADD COLUMN store_id uuid NOT NULL DEFAULT '${DEFAULT_STORE_ID}' REFERENCES stores(id) ON DELETE CASCADE;
+  ALTER TABLE orders ALTER COLUMN store_id DROP DEFAULT;
+  ALTER TABLE orders DROP CONSTRAINT orders_pkey;
+  ALTER TABLE orders ADD PRIMARY KEY (store_id, order_number);
+
+  ALTER TABLE return_requests ADD COLUMN store_id uuid REFERENCES stores(id) ON DELETE CASCADE;
+  UPDATE return_requests r SET store_id = c.store_id FROM conversations c WHERE c.id = r.conversation_id;
+  ALTER TABLE return_requests ALTER COLUMN store_id SET NOT NULL;
+
+  DROP INDEX uq_return_requests_active_order;
+  CREATE UNIQUE INDEX uq_return_requests_active_order
+    ON return_requests (store_id, upper(order_number)) WHERE status <> 'rejected';
+`,
+  down: `
+  DELETE FROM return_requests WHERE store_id <> '${DEFAULT_STORE_ID}';
+  DROP INDEX uq_return_requests_active_order;
+  CREATE UNIQUE INDEX uq_return_requests_active_order
+    ON return_requests (upper(order_number)) WHERE status <> 'rejected';
+  ALTER TABLE return_requests DROP COLUMN store_id;
+
+  DELETE FROM orders WHERE store_id <> '${DEFAULT_STORE_ID}';
+  ALTER TABLE orders DROP CONSTRAINT orders_pkey;
+  ALTER TABLE orders ADD PRIMARY KEY (order_number);
+  ALTER TABLE orders DROP COLUMN store_id;
+`
+}
@@ -0,0 +1,31 @@
+import type { Migration } from './types.js'
+
+// Matches DEFAULT_STORE_ID in repos/storeRepo.ts
+const DEFAULT_STORE_ID = '00000000-0000-0000-0000-000000000001'
+
+/**
+ * The store an erasure audit row belongs to, so each store's privacy admin
+ * only sees its own. Like conversation_id it has no foreign key, so the row
+ * outlives the store too. Rows whose conversation is already gone go to the
+ * 'default' store.
+ */
+export const storeErasures: Migration = {
+  version: 9,
+  name: 'store_erasures',
+  up: `
+  ALTER TABLE data_erasures ADD COLUMN store_id uuid;
+  UPDATE data_erasures e SET store_id = COALESCE(
+    (SELECT c.store_id FROM conversations c WHERE c.id = e.conversation_id),
+    '${DEFAULT_STORE_ID}'
+  );
+  ALTER TABLE data_erasures ALTER COLUMN store_id SET NOT NULL;
+
+  DROP INDEX idx_data_erasures_created;
+  CREATE INDEX idx_data_erasures_created ON data_erasures (store_id, created_at DESC);
+`,
+  down: `
+  DROP INDEX idx_data_erasures_created;
+  CREATE INDEX idx_data_erasures_created ON data_erasures (created_at DESC);
+  ALTER TABLE data_erasures DROP COLUMN store_id;
+`
+}
@@ -0,0 +1,19 @@
+import { baseline } from './0001_baseline.js'
+import { dataErasures } from './0002_data_erasures.js'
+import { messagePiiFlag } from './0003_message_pii_flag.js'
+import { stores } from './0004_stores.js'
+import { messageClientId } from './0005_message_client_id.js'
+import { idempotencyKeys } from './0006_idempotency_keys.js'
+import { conversationTurnLock } from './0007_conversation_turn_lock.js'
+import { storeOrders } from './0008_store_orders.js'
+import { storeErasures } from './0009_store_erasures.js'
+import type { Migration } from './types.js'
+
+export type { Migration } from './types.js'
+
+/**
+ * Every migration, oldest first. To change the schema, add a file
+ * NNNN_description.ts next to this one and append it here; never edit a
+ * migration that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [baseline, dataErasures, messagePiiFlag, stores, messageClientId, idempotencyKeys, conversationTurnLock, storeOrders, storeErasures]
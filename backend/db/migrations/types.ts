@@ -0,0 +1,10 @@
+/**
+ * One schema change. up and down are plain SQL, each run in its own
+ * transaction together with the schema_migrations bookkeeping.
+ */
+export type Migration = {
+  version: number
+  name: string
+  up: string
+  down: string
+}
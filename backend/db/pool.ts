@@ -12,3 +12,24 @@ const { Pool } = pg
 export const pool = new Pool({
   connectionString: env.DATABASE_URL
 })
+
+/**
+ * Run fn inside a single transaction on a dedicated client.
+ *
+ * Commits if fn resolves and rolls back if it throws (the error is rethrown).
+ * Queries that must be atomic use the client passed to fn instead of the pool.
+ */
+export async function withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>) {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const result = await fn(client)
+    await client.query('COMMIT')
+    return result
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {})
+    throw err
+  } finally {
+    client.release()
+  }
+}
@@ -1,5 +1,14 @@
 import 'dotenv/config'
+import { isIP } from 'node:net'
 import { z } from 'zod'
+
+function isIpOrCidr(value: string) {
+  const [address, prefix, ...rest] = value.split('/')
+  const version = isIP(address)
+  if (!version || rest.length) return false
+  return prefix === undefined || (/^\d+$/.test(prefix) && Number(prefix) <= (version === 4 ? 32 : 128))
+}
+
 const envSchema = z.object({
   PORT: z.coerce.number().int().positive().default(3001),
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
@@ -7,19 +16,81 @@ const envSchema = z.object({
   LOG_FILE: z.string().default('logs/backend.log'),
 
   DATABASE_URL: z.string().min(1),
+  // Apply pending schema migrations at startup; turn off when migrations run from CI
+  DB_MIGRATE_ON_START: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
 
   CHAT_PAGE_SIZE: z.coerce.number().int().positive().max(100).default(10),
 
+  // Which chat model backend to use:
+  // - openai: hosted OpenAI (needs OPENAI_API_KEY)
+  // - openai_compatible: any OpenAI-compatible server at LLM_BASE_URL (e.g. a local model)
+  // - stub: built-in deterministic replies, no network (optionally from LLM_STUB_FIXTURE)
+  LLM_PROVIDER: z.enum(['openai', 'openai_compatible', 'stub']).default('openai'),
+  LLM_BASE_URL: z.string().url().optional(),
+  LLM_STUB_FIXTURE: z.string().optional(),
+
   OPENAI_API_KEY: z.string().optional(),
   LLM_MODEL: z.string().default('gpt-4.1-mini'),
-  LLM_MAX_CONTEXT_TOKENS: z.coerce.number().int().positive().default(2000),
+  // Prompt budget: system prompt, retrieved policies, summary and history together
+  LLM_MAX_CONTEXT_TOKENS: z.coerce.number().int().positive().default(4000),
+  // Context window override for models the registry doesn't know (see services/llm/models.ts)
+  LLM_CONTEXT_WINDOW: z.coerce.number().int().positive().optional(),
   LLM_MAX_COMPLETION_TOKENS: z.coerce.number().int().positive().default(400),
   LLM_TIMEOUT_MS: z.coerce.number().int().positive().default(20000),
+  // Refresh a conversation's rolling summary once this many messages have fallen out of the prompt
+  LLM_SUMMARY_TRIGGER_MESSAGES: z.coerce.number().int().positive().default(6),
+  // Daily LLM token budgets (prompt + completion, reset at midnight UTC); 0 disables a budget
+  LLM_DAILY_TOKENS_PER_SESSION: z.coerce.number().int().nonnegative().default(100_000),
+  LLM_DAILY_TOKENS_PER_IP: z.coerce.number().int().nonnegative().default(300_000),
+  LLM_DAILY_TOKENS_GLOBAL: z.coerce.number().int().nonnegative().default(5_000_000),
+
+  // Where the order-status tool looks orders up: a JSON fixture file or the orders table
+  ORDER_PROVIDER: z.enum(['json', 'postgres']).default('json'),
+  ORDER_FIXTURE: z.string().default('fixtures/orders.json'),
+
+  // Number of knowledge-base chunks injected into the prompt per question
+  KB_TOP_K: z.coerce.number().int().positive().max(20).default(3),
+
+  // Bearer token for /api/v1/admin routes; the admin API is disabled when unset
+  ADMIN_API_TOKEN: z.string().min(16).optional(),
+  // Bearer token for /api/v1/operator routes (human handoff); disabled when unset
+  OPERATOR_API_TOKEN: z.string().min(16).optional(),
+
+  // HMAC key for customer session tokens; changing it signs every visitor out
+  SESSION_SECRET: z.string().min(32),
+  SESSION_TTL_DAYS: z.coerce.number().int().positive().max(365).default(90),
+
+  // Conversations idle longer than this are deleted or anonymized by a background job; 0 keeps everything
+  RETENTION_DAYS: z.coerce.number().int().nonnegative().default(0),
+  RETENTION_MODE: z.enum(['anonymize', 'delete']).default('anonymize'),
+  RETENTION_INTERVAL_MINUTES: z.coerce.number().int().positive().default(60),
+
+  // The local mail stub appends outgoing emails (verification codes) here
+  MAIL_OUTBOX_FILE: z.string().default('logs/mail.log'),
+
+  // Where rate-limit buckets live: process memory, or Postgres so limits hold across instances
+  RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+  // JSON file overriding the built-in rate-limit policies (see services/rateLimit/policies.ts)
+  RATE_LIMIT_POLICY_FILE: z.string().optional(),
+  // Comma-separated IPs / CIDR ranges that bypass rate limits
+  RATE_LIMIT_ALLOWLIST: z
+    .string()
+    .default('')
+    .transform((v) => v.split(',').map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.string().refine(isIpOrCidr, 'must be an IP address or CIDR range'))),
 
-  RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60000),
-  RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(60),
+  // Where idempotency keys for POST /message live: process memory, or Postgres so retries can land on any instance
+  IDEMPOTENCY_STORE: z.enum(['memory', 'postgres']).default('memory'),
 
   MAX_MESSAGE_CHARS: z.coerce.number().int().positive().max(10000).default(2000)
+}).superRefine((val, ctx) => {
+  if (val.LLM_PROVIDER === 'openai_compatible' && !val.LLM_BASE_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['LLM_BASE_URL'],
+      message: 'LLM_BASE_URL is required when LLM_PROVIDER=openai_compatible'
+    })
+  }
 })
 
 export const env = envSchema.parse(process.env)
@@ -1,17 +1,39 @@
 import express, { type Request, type Response } from 'express'
 import cors from 'cors'
 import chatRoutes from './routes/chatRoute.js'
+import sessionRoutes from './routes/sessionRoute.js'
+import adminKbRoutes from './routes/adminKbRoute.js'
+import adminReturnsRoutes from './routes/adminReturnsRoute.js'
+import adminUsageRoutes from './routes/adminUsageRoute.js'
+import adminPrivacyRoutes from './routes/adminPrivacyRoute.js'
+import adminStoresRoutes from './routes/adminStoresRoute.js'
+import operatorRoutes from './routes/operatorRoute.js'
+import { requireAdmin, requireOperator } from './middleware/adminAuthMiddleware.js'
+import { selectStore } from './middleware/storeMiddleware.js'
 import { env } from './env.js'
 import { initDb } from './db/init.js'
 import crypto from 'crypto'
 import { log } from './logger.js'
+import { seedKnowledgeBase } from './services/kb/knowledgeBase.js'
+import { startRetentionJob } from './services/retention.js'
+import { isAllowedOrigin } from './services/stores.js'
+import { maskQuery } from './services/redaction.js'
 
 const app = express()
 
 app.use(
   cors({
-    origin: env.CORS_ORIGIN,
-    credentials: false
+    // CORS_ORIGIN plus every store's own sites (stores.cors_origins)
+    origin: (origin, callback) => {
+      if (!origin) return callback(null, false)
+      isAllowedOrigin(origin).then(
+        (allowed) => callback(null, allowed),
+        (err: unknown) => callback(err instanceof Error ? err : new Error(String(err)))
+      )
+    },
+    credentials: false,
+    // Let the widget read rate-limit state on cross-origin responses
+    exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy']
   })
 )
 
@@ -23,16 +45,18 @@ app.use((req: Request, res: Response, next) => {
   res.setHeader('x-request-id', requestId)
   res.locals.requestId = requestId
 
+  // The query string can carry tokens (EventSource) and personal data (?email=, ?q=),
+  // so only the path is logged as-is and the query goes through maskQuery
   const baseMeta = {
     requestId,
     method: req.method,
-    path: req.originalUrl,
+    path: req.path,
     ip: req.ip
   }
 
   log('info', 'request.start', {
     ...baseMeta,
-    query: req.query,
+    query: maskQuery(req.query),
     contentType: req.headers['content-type']
   })
 
@@ -52,9 +76,18 @@ app.get('/api/v1/health', (_req: Request, res: Response) => {
   res.json({ ok: true })
 })
 
+app.use('/api/v1/chat/session', sessionRoutes)
 app.use('/api/v1/chat', chatRoutes)
+app.use('/api/v1/admin/stores', requireAdmin, adminStoresRoutes)
+app.use('/api/v1/admin/kb', requireAdmin, selectStore, adminKbRoutes)
+app.use('/api/v1/admin/returns', requireAdmin, selectStore, adminReturnsRoutes)
+app.use('/api/v1/admin/usage', requireAdmin, selectStore, adminUsageRoutes)
+app.use('/api/v1/admin/privacy', requireAdmin, selectStore, adminPrivacyRoutes)
+app.use('/api/v1/operator', requireOperator, selectStore, operatorRoutes)
 
 await initDb()
+await seedKnowledgeBase()
+startRetentionJob()
 
 app.listen(env.PORT, () => {
   log('info', 'server.listening', { port: env.PORT })
@@ -63,3 +63,11 @@ export function log(
   const line = `${ts} ${level.toUpperCase()} ${message}${formatMeta(meta)}\n`
   getStream().write(line)
 }
+
+/** Log fields describing a caught error. */
+export function errorMeta(err: unknown) {
+  if (err instanceof Error) {
+    return { name: err.name, message: err.message, stack: err.stack }
+  }
+  return { error: String(err) }
+}
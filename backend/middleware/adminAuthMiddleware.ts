@@ -0,0 +1,61 @@
+import { timingSafeEqual } from 'node:crypto'
+import { type Request, type Response } from 'express'
+import { env } from '../env.js'
+import { log } from '../logger.js'
+
+function tokensMatch(provided: string, expected: string) {
+  const a = Buffer.from(provided)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Build a middleware that expects `Authorization: Bearer <token>`, or `?token=`
+ * when `allowQueryToken` is set (EventSource routes only).
+ *
+ * If the token isn't configured the API is disabled entirely (503) rather
+ * than left open.
+ */
+function requireBearer(
+  scope: 'admin' | 'operator',
+  getToken: () => string | undefined,
+  { allowQueryToken = false }: { allowQueryToken?: boolean } = {}
+) {
+  return (req: Request, res: Response, next: () => void) => {
+    const requestId = (res.locals.requestId as string | undefined) ?? undefined
+    const expected = getToken()
+
+    if (!expected) {
+      return res.status(503).json({ error: `${scope === 'admin' ? 'Admin' : 'Operator'} API is not configured` })
+    }
+
+    // EventSource can't send headers, so SSE routes pass the token as ?token=
+    const header = req.headers.authorization ?? ''
+    const token = header.startsWith('Bearer ')
+      ? header.slice('Bearer '.length).trim()
+      : allowQueryToken && typeof req.query.token === 'string' ? req.query.token : ''
+    if (!token || !tokensMatch(token, expected)) {
+      log('warn', `${scope}.auth_failed`, { requestId, path: `${req.baseUrl}${req.path}`, ip: req.ip })
+      return res.status(401).json({ error: 'Unauthorized' })
+    }
+
+    return next()
+  }
+}
+
+/**
+ * Guard for /api/v1/admin routes (ADMIN_API_TOKEN).
+ */
+export const requireAdmin = requireBearer('admin', () => env.ADMIN_API_TOKEN)
+
+/**
+ * Guard for /api/v1/operator routes (OPERATOR_API_TOKEN), used by support staff
+ * taking over conversations from the AI.
+ */
+export const requireOperator = requireBearer('operator', () => env.OPERATOR_API_TOKEN)
+
+/**
+ * requireOperator for the operator's EventSource subscription, which also
+ * accepts the token as ?token=. Every other operator route needs the header.
+ */
+export const requireOperatorSse = requireBearer('operator', () => env.OPERATOR_API_TOKEN, { allowQueryToken: true })
@@ -1,49 +1,105 @@
 import { type Request, type Response } from 'express'
-import { allowRequest } from '../services/rateLimit.js'
+import { allowRequest, type RateLimitResult } from '../services/rateLimit/index.js'
+import {
+  getRateLimitPolicy,
+  isAllowListed,
+  type RateLimitPolicyName,
+  type RateLimitScope
+} from '../services/rateLimit/policies.js'
 import { log } from '../logger.js'
+import type { SessionClaims } from '../services/sessionToken.js'
+import { getRequestStore } from './storeMiddleware.js'
 
 /**
- * Basic rate limiter for POST /message. If a sessionId is present, we limit per-session
- * in a short window to prevent rapid-fire messages. Otherwise we fallback to an IP-based limit.
- * Returns 429 with a friendly error when over limit.
+ * Who a request counts as for a scope, or undefined when the scope doesn't
+ * apply (no session yet, customer not verified).
  */
-export function rateLimitMessage(req: Request, res: Response, next: () => void) {
-  const requestId = (res.locals.requestId as string | undefined) ?? undefined
-  const ip = req.ip
-  const maybeSessionId = typeof req.body?.sessionId === 'string' ? String(req.body.sessionId) : undefined
-
-  // Fallback semantics: if sessionId exists -> enforce per-session; else enforce per-IP
-  if (maybeSessionId) {
-    const perSession = allowRequest({ key: `msg:sess:${maybeSessionId}`, windowMs: 10_000, max: 5 })
-    if (!perSession.allowed) {
-      if (perSession.retryAfterMs) res.setHeader('Retry-After', Math.ceil(perSession.retryAfterMs / 1000))
-      log('warn', 'rate_limit.blocked', { requestId, route: 'POST /message', scope: 'session', sessionId: maybeSessionId, retryAfterMs: perSession.retryAfterMs })
-      return res.status(429).json({ error: 'The system is overloaded. Please wait a moment before sending more messages.' })
-    }
-    return next()
+function scopeId(scope: RateLimitScope, req: Request, res: Response) {
+  // The session token's claims when requireSession ran first; otherwise whatever the body claims
+  const session = res.locals.session as SessionClaims | undefined
+  switch (scope) {
+    case 'session':
+      return session?.sessionId ?? (typeof req.body?.sessionId === 'string' ? String(req.body.sessionId) : undefined)
+    case 'ip':
+      return req.ip
+    case 'customer':
+      return session?.customerId ?? undefined
+    case 'global':
+      return 'all'
   }
+}
 
-  const perIp = allowRequest({ key: `msg:ip:${ip}`, windowMs: 60_000, max: 20 })
-  if (!perIp.allowed) {
-    if (perIp.retryAfterMs) res.setHeader('Retry-After', Math.ceil(perIp.retryAfterMs / 1000))
-    log('warn', 'rate_limit.blocked', { requestId, route: 'POST /message', scope: 'ip', ip, retryAfterMs: perIp.retryAfterMs })
-    return res.status(429).json({ error: 'The system is overloaded. Please try again shortly.' })
-  }
-  return next()
+/**
+ * Standard RateLimit-* headers for the tightest limit (fewest requests left),
+ * plus RateLimit-Policy listing every limit that applied.
+ */
+function setRateLimitHeaders(res: Response, results: Array<{ windowMs: number; result: RateLimitResult }>) {
+  const tightest = results.reduce((a, b) => (b.result.remaining < a.result.remaining ? b : a))
+  res.setHeader('RateLimit-Limit', tightest.result.limit)
+  res.setHeader('RateLimit-Remaining', tightest.result.remaining)
+  res.setHeader('RateLimit-Reset', Math.ceil(tightest.result.resetMs / 1000))
+  res.setHeader(
+    'RateLimit-Policy',
+    results.map((r) => `${r.result.limit};w=${Math.ceil(r.windowMs / 1000)}`).join(', ')
+  )
 }
 
 /**
- * Lightweight rate limiter for GET /history. IP-based and a bit more permissive
- * to allow scrolling/pagination without getting in the way.
+ * Check every limit of a policy that applies to this request, spending from
+ * them only if all allow it. Sets the RateLimit-* headers and, when any limit
+ * is exceeded, sends the 429 (with Retry-After) and returns false.
+ *
+ * Buckets are per store (the global scope too), so one storefront's traffic
+ * can't use up another's limits. The store must already be on the request
+ * (requireSession or selectStore).
  */
-export function rateLimitHistory(req: Request, res: Response, next: () => void) {
+export async function enforceRateLimit(policyName: RateLimitPolicyName, req: Request, res: Response) {
+  if (isAllowListed(req.ip)) return true
+
   const requestId = (res.locals.requestId as string | undefined) ?? undefined
-  const ip = req.ip
-  const perIp = allowRequest({ key: `hist:ip:${ip}`, windowMs: 60_000, max: 120 })
-  if (!perIp.allowed) {
-    if (perIp.retryAfterMs) res.setHeader('Retry-After', Math.ceil(perIp.retryAfterMs / 1000))
-    log('warn', 'rate_limit.blocked', { requestId, route: 'GET /history', scope: 'ip', ip, retryAfterMs: perIp.retryAfterMs })
-    return res.status(429).json({ error: 'The system is overloaded. Please try again shortly.' })
+  const policy = getRateLimitPolicy(policyName)
+  const store = getRequestStore(res)
+
+  const applicable = policy.limits.flatMap((limit) => {
+    const id = scopeId(limit.scope, req, res)
+    return id ? [{ ...limit, id }] : []
+  })
+  if (applicable.length === 0) return true
+
+  // All or nothing: a request refused by one limit doesn't spend from the others
+  const taken = await allowRequest(
+    applicable.map((limit) => ({
+      key: `${store.id}:${policyName}:${limit.scope}:${limit.id}`,
+      windowMs: limit.windowMs,
+      max: limit.max
+    }))
+  )
+  const results = applicable.map((limit, i) => ({ ...limit, result: taken[i]! }))
+  setRateLimitHeaders(res, results)
+
+  const blocked = results.filter((r) => !r.result.allowed)
+  if (blocked.length === 0) return true
+
+  const retryAfterMs = Math.max(...blocked.map((r) => r.result.retryAfterMs ?? 0))
+  if (retryAfterMs) res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000))
+  log('warn', 'rate_limit.blocked', {
+    requestId,
+    route: `${req.method} ${req.baseUrl}${req.path}`,
+    storeKey: store.key,
+    policy: policyName,
+    scopes: blocked.map((r) => r.scope),
+    ip: req.ip,
+    retryAfterMs
+  })
+  res.status(429).json({ error: policy.error })
+  return false
+}
+
+/**
+ * Middleware form of enforceRateLimit, for routes limited on every request.
+ */
+export function rateLimit(policyName: RateLimitPolicyName) {
+  return async (req: Request, res: Response, next: () => void) => {
+    if (await enforceRateLimit(policyName, req, res)) next()
   }
-  return next()
 }
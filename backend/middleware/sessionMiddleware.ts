@@ -0,0 +1,72 @@
+import { type Request, type Response } from 'express'
+import { errorMeta, log } from '../logger.js'
+import { getConversation } from '../repos/chatRepo.js'
+import { verifySessionToken, type SessionClaims } from '../services/sessionToken.js'
+import { findStore } from '../services/stores.js'
+
+/**
+ * Read the customer session token from `Authorization: Bearer <token>`, or
+ * from `?token=` when `allowQueryToken` is set (EventSource routes only, as
+ * EventSource can't send headers).
+ */
+export function readSessionToken(req: Request, { allowQueryToken = false }: { allowQueryToken?: boolean } = {}) {
+  const header = req.headers.authorization ?? ''
+  if (header.startsWith('Bearer ')) return header.slice('Bearer '.length).trim()
+  return allowQueryToken && typeof req.query.token === 'string' ? req.query.token : ''
+}
+
+/**
+ * Build a middleware that requires a valid session token (see POST
+ * /api/v1/chat/session) and exposes its claims as res.locals.session, and the
+ * store that issued it as res.locals.store.
+ */
+function sessionGuard(opts: { allowQueryToken?: boolean } = {}) {
+  return async (req: Request, res: Response, next: () => void) => {
+    const requestId = (res.locals.requestId as string | undefined) ?? undefined
+    const claims = verifySessionToken(readSessionToken(req, opts))
+    if (!claims) {
+      log('warn', 'session.auth_failed', { requestId, path: req.path, ip: req.ip })
+      return res.status(401).json({ error: 'Your chat session has expired. Please reload to start a new one.' })
+    }
+
+    try {
+      const store = await findStore(claims.storeId)
+      if (!store) {
+        log('warn', 'session.unknown_store', { requestId, storeId: claims.storeId })
+        return res.status(401).json({ error: 'Your chat session has expired. Please reload to start a new one.' })
+      }
+      res.locals.store = store
+    } catch (err) {
+      log('error', 'session.store_lookup_failed', { requestId, ...errorMeta(err) })
+      return res.status(500).json({ error: 'Something went wrong. Please try again.' })
+    }
+
+    res.locals.session = claims
+    return next()
+  }
+}
+
+/** Guard for customer routes; the token must come in the Authorization header. */
+export const requireSession = sessionGuard()
+
+/**
+ * requireSession for the customer's EventSource subscription, which also
+ * accepts the token as ?token=. Every other customer route needs the header.
+ */
+export const requireSessionSse = sessionGuard({ allowQueryToken: true })
+
+export function getSession(res: Response) {
+  return res.locals.session as SessionClaims
+}
+
+/**
+ * Whether a session may use a conversation of its store: one its visitor
+ * started, or any conversation linked to its verified customer.
+ */
+export async function canAccessConversation(session: SessionClaims, conversationId: string) {
+  if (session.sessionId === conversationId) return true
+  const conversation = await getConversation(session.storeId, conversationId)
+  if (!conversation) return false
+  if (conversation.visitor_id === session.sessionId) return true
+  return !!session.customerId && conversation.customer_id === session.customerId
+}
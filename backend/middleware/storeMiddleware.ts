@@ -0,0 +1,39 @@
+import { type Request, type Response } from 'express'
+import { errorMeta, log } from '../logger.js'
+import type { StoreRow } from '../repos/storeRepo.js'
+import { findStoreByKey } from '../services/stores.js'
+
+/**
+ * Read the store key a staff request acts on from `X-Store-Key`, or from
+ * `?store=` for EventSource, which can't send headers. Defaults to the
+ * 'default' store.
+ */
+export function readStoreKey(req: Request) {
+  const header = req.header('x-store-key')?.trim()
+  if (header) return header
+  return typeof req.query.store === 'string' && req.query.store ? req.query.store : 'default'
+}
+
+/**
+ * For operator and admin routes: look up the store named by the request
+ * (see readStoreKey) and expose it as res.locals.store. Customer routes get
+ * theirs from the session token instead (requireSession).
+ */
+export async function selectStore(req: Request, res: Response, next: () => void) {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const key = readStoreKey(req)
+  try {
+    const store = await findStoreByKey(key)
+    if (!store) return res.status(404).json({ error: 'Unknown store' })
+    res.locals.store = store
+  } catch (err) {
+    log('error', 'store.lookup_failed', { requestId, storeKey: key, ...errorMeta(err) })
+    return res.status(500).json({ error: 'Something went wrong. Please try again.' })
+  }
+  return next()
+}
+
+/** The store the current request acts for, set by selectStore or requireSession. */
+export function getRequestStore(res: Response) {
+  return res.locals.store as StoreRow
+}
@@ -1,14 +1,61 @@
 import { randomUUID } from 'node:crypto'
+import type pg from 'pg'
 import { pool } from '../db/pool.js'
 import { sql } from '../db/sql.js'
+import { publishChatEvent } from '../services/chatEvents.js'
+import { containsPii } from '../services/redaction.js'
 
-export type Sender = 'user' | 'ai'
+export type Sender = 'user' | 'ai' | 'agent'
+
+/**
+ * Who owns a conversation:
+ * - ai: the support agent answers automatically
+ * - pending_human: escalated, waiting for an operator to claim it
+ * - human: an operator is answering; the LLM is not called
+ * - closed: resolved; a new customer message reopens it as 'ai'
+ */
+export type ConversationStatus = 'ai' | 'pending_human' | 'human' | 'closed'
+
+export type ConversationRow = {
+  id: string
+  store_id: string
+  status: ConversationStatus
+  assigned_operator: string | null
+  escalation_reason: string | null
+  escalated_at: string | null
+  visitor_id: string
+  customer_id: string | null
+  last_activity_at: string
+  created_at: string
+}
+
+export type ConversationSummaryRow = ConversationRow & {
+  message_count: number
+  last_message_sender: Sender | null
+  last_message_text: string | null
+}
+
+// A conversation in the customer's own list: title is the start of their first message
+export type VisitorConversationRow = {
+  id: string
+  status: ConversationStatus
+  title: string | null
+  message_count: number
+  last_activity_at: string
+  created_at: string
+}
 
 export type MessageRow = {
   id: string
   conversation_id: string
   sender: Sender
   text: string
+  interrupted: boolean
+  kb_chunk_ids: string[]
+  // The text contains personal data (emails, phone or card numbers, addresses)
+  contains_pii: boolean
+  // The id the sending client generated for the message, if it sent one
+  client_message_id: string | null
   created_at: string
 }
 
@@ -17,50 +64,372 @@ export type MessageRow = {
  *
  * We keep this idempotent by using an INSERT .. ON CONFLICT DO NOTHING so callers
  * can safely invoke it before writing messages without worrying about races.
+ *
+ * Every function here takes the store the caller acts for and only sees that
+ * store's conversations, so one store's widget or operators can never reach
+ * another's.
  */
-export async function ensureConversation(conversationId: string) {
+export async function ensureConversation(storeId: string, conversationId: string) {
   const q = sql`
-    INSERT INTO conversations (id)
-    VALUES (${conversationId}::uuid)
+    INSERT INTO conversations (id, store_id, visitor_id)
+    VALUES (${conversationId}::uuid, ${storeId}::uuid, ${conversationId}::uuid)
     ON CONFLICT (id) DO NOTHING
   `
   await pool.query(q.text, q.values)
 }
 
+/**
+ * Claim a conversation for a new session token. Creates the conversation if
+ * needed; an existing one can only be claimed once (older clients picked their
+ * own ids, so the first token request for such an id adopts it). Returns false
+ * if the conversation already belongs to a token or to another store.
+ */
+export async function bindSessionConversation(storeId: string, conversationId: string) {
+  const q = sql`
+    INSERT INTO conversations (id, store_id, visitor_id, token_bound_at)
+    VALUES (${conversationId}::uuid, ${storeId}::uuid, ${conversationId}::uuid, now())
+    ON CONFLICT (id) DO UPDATE SET token_bound_at = now()
+      WHERE conversations.token_bound_at IS NULL AND conversations.store_id = ${storeId}::uuid
+    RETURNING id
+  `
+  const res = await pool.query(q.text, q.values)
+  return (res.rowCount ?? 0) > 0
+}
+
+/**
+ * Start another conversation for a visitor, linked to their customer record
+ * if they have verified their email.
+ */
+export async function createVisitorConversation(args: { storeId: string; visitorId: string; customerId: string | null }) {
+  const q = sql`
+    INSERT INTO conversations (id, store_id, visitor_id, customer_id, token_bound_at)
+    VALUES (${randomUUID()}::uuid, ${args.storeId}::uuid, ${args.visitorId}::uuid, ${args.customerId}::uuid, now())
+    RETURNING id, store_id, status, assigned_operator, escalation_reason, escalated_at, visitor_id, customer_id, last_activity_at, created_at
+  `
+  const res = await pool.query<ConversationRow>(q.text, q.values)
+  return res.rows[0]!
+}
+
+/**
+ * A visitor's conversations (plus any linked to their verified customer
+ * record, e.g. from another device), newest activity first, with keyset
+ * pagination on (last_activity_at, id).
+ */
+export async function listVisitorConversations(args: {
+  storeId: string
+  visitorId: string
+  customerId: string | null
+  cursorLastActivityAt?: string
+  cursorId?: string
+  limit: number
+}) {
+  const q = sql`
+    SELECT c.id, c.status, c.last_activity_at, c.created_at,
+      left(first.text, 80) AS title,
+      (SELECT count(*)::int FROM messages m WHERE m.conversation_id = c.id) AS message_count
+    FROM conversations c
+    LEFT JOIN LATERAL (
+      SELECT text FROM messages m
+      WHERE m.conversation_id = c.id AND m.sender = 'user'
+      ORDER BY created_at ASC, id ASC
+      LIMIT 1
+    ) first ON true
+    WHERE c.store_id = ${args.storeId}::uuid
+      AND (c.visitor_id = ${args.visitorId}::uuid
+        OR (${args.customerId}::uuid IS NOT NULL AND c.customer_id = ${args.customerId}::uuid))
+      AND (${args.cursorLastActivityAt ?? null}::timestamptz IS NULL
+        OR (c.last_activity_at, c.id) < (${args.cursorLastActivityAt ?? null}::timestamptz, ${args.cursorId ?? null}::uuid))
+    ORDER BY c.last_activity_at DESC, c.id DESC
+    LIMIT ${args.limit}
+  `
+  const res = await pool.query<VisitorConversationRow>(q.text, q.values)
+  return res.rows
+}
+
+/**
+ * Fetch a conversation's ownership state, or null if the store has no such
+ * conversation.
+ */
+export async function getConversation(storeId: string, conversationId: string) {
+  const q = sql`
+    SELECT id, store_id, status, assigned_operator, escalation_reason, escalated_at, visitor_id, customer_id, last_activity_at, created_at
+    FROM conversations
+    WHERE id = ${conversationId}::uuid AND store_id = ${storeId}::uuid
+  `
+  const res = await pool.query<ConversationRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * Atomically move a conversation to a new status, but only if it is currently
+ * in one of the `from` statuses (and, when requireOperator is set, assigned to
+ * that operator). Returns the updated row, or null if the guard didn't match,
+ * which lets concurrent operators race safely on claim/release.
+ *
+ * assignedOperator: the operator to record (null clears it).
+ * escalationReason: recorded (with escalated_at) when moving to pending_human.
+ */
+export async function transitionConversation(args: {
+  storeId: string
+  conversationId: string
+  from: ConversationStatus[]
+  to: ConversationStatus
+  assignedOperator: string | null
+  requireOperator?: string
+  escalationReason?: string
+}) {
+  const escalating = args.to === 'pending_human'
+  const q = sql`
+    UPDATE conversations
+    SET status = ${args.to},
+        assigned_operator = ${args.assignedOperator},
+        escalation_reason = CASE WHEN ${escalating}::boolean THEN ${args.escalationReason ?? null} ELSE escalation_reason END,
+        escalated_at = CASE WHEN ${escalating}::boolean THEN now() ELSE escalated_at END
+    WHERE id = ${args.conversationId}::uuid
+      AND store_id = ${args.storeId}::uuid
+      AND status = ANY(${args.from}::text[])
+      AND (${args.requireOperator ?? null}::text IS NULL OR assigned_operator = ${args.requireOperator ?? null})
+    RETURNING id, store_id, status, assigned_operator, escalation_reason, escalated_at, visitor_id, customer_id, last_activity_at, created_at
+  `
+  const res = await pool.query<ConversationRow>(q.text, q.values)
+  const row = res.rows[0] ?? null
+  if (row) publishChatEvent(args.conversationId, { type: 'status', conversation: row })
+  return row
+}
+
+/**
+ * Take the conversation's turn lease for leaseMs under a new token, if nobody
+ * holds it or the holder's lease ran out. Returns the token, or null if the
+ * lease is held (or the store has no such conversation).
+ */
+export async function tryLockTurn(storeId: string, conversationId: string, leaseMs: number) {
+  const token = randomUUID()
+  const q = sql`
+    UPDATE conversations
+    SET turn_token = ${token}::uuid,
+        turn_locked_until = clock_timestamp() + ${leaseMs} * interval '1 millisecond'
+    WHERE id = ${conversationId}::uuid
+      AND store_id = ${storeId}::uuid
+      AND (turn_locked_until IS NULL OR turn_locked_until < clock_timestamp())
+    RETURNING id
+  `
+  const res = await pool.query(q.text, q.values)
+  return res.rowCount ? token : null
+}
+
+/**
+ * Extend a turn lease by leaseMs from now, if the token still holds it.
+ * Returns false once another turn has taken the lease over.
+ */
+export async function renewTurn(conversationId: string, token: string, leaseMs: number) {
+  const q = sql`
+    UPDATE conversations
+    SET turn_locked_until = clock_timestamp() + ${leaseMs} * interval '1 millisecond'
+    WHERE id = ${conversationId}::uuid AND turn_token = ${token}::uuid
+  `
+  const res = await pool.query(q.text, q.values)
+  return res.rowCount === 1
+}
+
+/**
+ * Give up a turn lease, if the token still holds it. Returns false if it
+ * didn't (the lease lapsed and another turn took it).
+ */
+export async function unlockTurn(conversationId: string, token: string) {
+  const q = sql`
+    UPDATE conversations
+    SET turn_token = NULL, turn_locked_until = NULL
+    WHERE id = ${conversationId}::uuid AND turn_token = ${token}::uuid
+  `
+  const res = await pool.query(q.text, q.values)
+  return res.rowCount === 1
+}
+
+/**
+ * Conversations in the given statuses, oldest escalation first, so operators
+ * work the queue in the order customers asked for help.
+ */
+export async function listConversationsByStatus(storeId: string, statuses: ConversationStatus[], limit: number) {
+  const q = sql`
+    SELECT id, store_id, status, assigned_operator, escalation_reason, escalated_at, visitor_id, customer_id, last_activity_at, created_at
+    FROM conversations
+    WHERE store_id = ${storeId}::uuid AND status = ANY(${statuses}::text[])
+    ORDER BY escalated_at ASC NULLS LAST, created_at ASC
+    LIMIT ${limit}
+  `
+  const res = await pool.query<ConversationRow>(q.text, q.values)
+  return res.rows
+}
+
+/**
+ * Operator inbox listing: conversations ordered by last activity (newest first)
+ * with keyset pagination on (last_activity_at, id).
+ *
+ * search matches message text (case-insensitive substring) or an exact
+ * conversation id; statuses and operator narrow the results further.
+ * Each row carries the message count and a preview of the latest message.
+ */
+export async function listConversations(args: {
+  storeId: string
+  search?: string
+  statuses?: ConversationStatus[]
+  operator?: string
+  cursorLastActivityAt?: string
+  cursorId?: string
+  limit: number
+}) {
+  const search = args.search?.trim() || null
+  const pattern = search ? `%${search.replace(/[\\%_]/g, (c) => `\\${c}`)}%` : null
+  const searchId = search && /^[0-9a-f-]{36}$/i.test(search) ? search : null
+  const statuses = args.statuses && args.statuses.length > 0 ? args.statuses : null
+
+  const q = sql`
+    SELECT c.id, c.store_id, c.status, c.assigned_operator, c.escalation_reason, c.escalated_at, c.visitor_id, c.customer_id, c.last_activity_at, c.created_at,
+      (SELECT count(*)::int FROM messages m WHERE m.conversation_id = c.id) AS message_count,
+      last.sender AS last_message_sender,
+      left(last.text, 200) AS last_message_text
+    FROM conversations c
+    LEFT JOIN LATERAL (
+      SELECT sender, text FROM messages m
+      WHERE m.conversation_id = c.id
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    ) last ON true
+    WHERE c.store_id = ${args.storeId}::uuid
+      AND (${statuses}::text[] IS NULL OR c.status = ANY(${statuses}::text[]))
+      AND (${args.operator ?? null}::text IS NULL OR c.assigned_operator = ${args.operator ?? null})
+      AND (${pattern}::text IS NULL
+        OR c.id = ${searchId}::uuid
+        OR EXISTS (SELECT 1 FROM messages m WHERE m.conversation_id = c.id AND m.text ILIKE ${pattern}))
+      AND (${args.cursorLastActivityAt ?? null}::timestamptz IS NULL
+        OR (c.last_activity_at, c.id) < (${args.cursorLastActivityAt ?? null}::timestamptz, ${args.cursorId ?? null}::uuid))
+    ORDER BY c.last_activity_at DESC, c.id DESC
+    LIMIT ${args.limit}
+  `
+  const res = await pool.query<ConversationSummaryRow>(q.text, q.values)
+  return res.rows
+}
 
 /**
  * Insert a single message into the messages table and bump the conversation's
  * last_activity_at. Returns the newly created message id and timestamp so the
  * caller can optimistically update UI or logs if needed.
+ *
+ * interrupted marks a partial AI reply whose stream was cut short; kbChunkIds
+ * records which knowledge-base chunks were in the prompt for an AI reply.
+ * contains_pii is worked out from the text.
+ *
+ * clientMessageId makes the insert idempotent: if the conversation already
+ * has a message with that id (a retried send), nothing is written and the
+ * existing message is returned with duplicate = true.
+ *
+ * A stored message is also published to live subscribers of the
+ * conversation (see services/chatEvents.ts). Inside a transaction (client
+ * set) nothing is published; the caller publishes the returned message once
+ * it commits. Throws if the store has no such conversation.
  */
 export async function insertMessage(args: {
+  storeId: string
   conversationId: string
   sender: Sender
   text: string
+  interrupted?: boolean
+  kbChunkIds?: string[]
+  clientMessageId?: string
   createdAt?: Date
+  client?: pg.PoolClient
 }) {
   const id = randomUUID()
   const createdAt = args.createdAt ?? new Date()
+  const interrupted = args.interrupted ?? false
+  const kbChunkIds = args.kbChunkIds ?? []
+  const clientMessageId = args.clientMessageId ?? null
+  const hasPii = containsPii(args.text)
 
   const q = sql`
-    INSERT INTO messages (id, conversation_id, sender, text, created_at)
-    VALUES (${id}::uuid, ${args.conversationId}::uuid, ${args.sender}, ${args.text}, ${createdAt.toISOString()}::timestamptz)
+    WITH inserted AS (
+      INSERT INTO messages (id, conversation_id, sender, text, interrupted, kb_chunk_ids, contains_pii, client_message_id, created_at)
+      SELECT ${id}::uuid, c.id, ${args.sender}, ${args.text}, ${interrupted}, ${kbChunkIds}::uuid[], ${hasPii},
+        ${clientMessageId}::uuid, ${createdAt.toISOString()}::timestamptz
+      FROM conversations c
+      WHERE c.id = ${args.conversationId}::uuid AND c.store_id = ${args.storeId}::uuid
+      ON CONFLICT (conversation_id, client_message_id) WHERE client_message_id IS NOT NULL DO NOTHING
+      RETURNING conversation_id, created_at
+    )
+    UPDATE conversations c
+    SET last_activity_at = GREATEST(c.last_activity_at, inserted.created_at)
+    FROM inserted
+    WHERE c.id = inserted.conversation_id
   `
-  await pool.query(q.text, q.values)
+  const res = await (args.client ?? pool).query(q.text, q.values)
+  if (res.rowCount === 0) {
+    const existing = args.clientMessageId
+      ? await findClientMessage(args.storeId, args.conversationId, args.clientMessageId)
+      : null
+    if (!existing) throw new Error(`Conversation ${args.conversationId} not found in store ${args.storeId}`)
+    return { id: existing.id, createdAt: new Date(existing.created_at), duplicate: true, message: existing }
+  }
+
+  const message: MessageRow = {
+    id,
+    conversation_id: args.conversationId,
+    sender: args.sender,
+    text: args.text,
+    interrupted,
+    kb_chunk_ids: kbChunkIds,
+    contains_pii: hasPii,
+    client_message_id: clientMessageId,
+    created_at: createdAt.toISOString()
+  }
+  if (!args.client) publishChatEvent(args.conversationId, { type: 'message', message })
+
+  return { id, createdAt, duplicate: false, message }
+}
+
+/**
+ * The message a client sent with this id, or null if it was never stored.
+ */
+export async function findClientMessage(storeId: string, conversationId: string, clientMessageId: string) {
+  const q = sql`
+    SELECT m.id, m.conversation_id, m.sender, m.text, m.interrupted, m.kb_chunk_ids, m.contains_pii, m.client_message_id, m.created_at
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id AND c.store_id = ${storeId}::uuid
+    WHERE m.conversation_id = ${conversationId}::uuid AND m.client_message_id = ${clientMessageId}::uuid
+  `
+  const res = await pool.query<MessageRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
 
-  return { id, createdAt }
+/**
+ * The first AI message after a given message: the answer to it, or null if
+ * none has been stored yet.
+ */
+export async function findReplyTo(storeId: string, message: { conversation_id: string; created_at: string; id: string }) {
+  const q = sql`
+    SELECT m.id, m.conversation_id, m.sender, m.text, m.interrupted, m.kb_chunk_ids, m.contains_pii, m.client_message_id, m.created_at
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id AND c.store_id = ${storeId}::uuid
+    WHERE m.conversation_id = ${message.conversation_id}::uuid
+      AND m.sender = 'ai'
+      AND (m.created_at, m.id) > (${message.created_at}::timestamptz, ${message.id}::uuid)
+    ORDER BY m.created_at ASC, m.id ASC
+    LIMIT 1
+  `
+  const res = await pool.query<MessageRow>(q.text, q.values)
+  return res.rows[0] ?? null
 }
 
 /**
  * Fetch the most recent messages for a conversation, returning them in
  * chronological order (oldest -> newest) which is what most UIs expect.
  */
-export async function getRecentMessages(conversationId: string, limit: number) {
+export async function getRecentMessages(storeId: string, conversationId: string, limit: number) {
   const q = sql`
-    SELECT id, conversation_id, sender, text, created_at
-    FROM messages
-    WHERE conversation_id = ${conversationId}::uuid
-    ORDER BY created_at DESC, id DESC
+    SELECT m.id, m.conversation_id, m.sender, m.text, m.interrupted, m.kb_chunk_ids, m.contains_pii, m.client_message_id, m.created_at
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id AND c.store_id = ${storeId}::uuid
+    WHERE m.conversation_id = ${conversationId}::uuid
+    ORDER BY m.created_at DESC, m.id DESC
     LIMIT ${limit}
   `
 
@@ -77,6 +446,7 @@ export async function getRecentMessages(conversationId: string, limit: number) {
  * oldest -> newest for easier rendering.
  */
 export async function getOlderMessages(args: {
+  storeId: string
   conversationId: string
   cursorCreatedAt: string
   cursorId?: string
@@ -84,19 +454,21 @@ export async function getOlderMessages(args: {
 }) {
   const q = args.cursorId
     ? sql`
-        SELECT id, conversation_id, sender, text, created_at
-        FROM messages
-        WHERE conversation_id = ${args.conversationId}::uuid
-          AND (created_at, id) < (${args.cursorCreatedAt}::timestamptz, ${args.cursorId}::uuid)
-        ORDER BY created_at DESC, id DESC
+        SELECT m.id, m.conversation_id, m.sender, m.text, m.interrupted, m.kb_chunk_ids, m.contains_pii, m.client_message_id, m.created_at
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversation_id AND c.store_id = ${args.storeId}::uuid
+        WHERE m.conversation_id = ${args.conversationId}::uuid
+          AND (m.created_at, m.id) < (${args.cursorCreatedAt}::timestamptz, ${args.cursorId}::uuid)
+        ORDER BY m.created_at DESC, m.id DESC
         LIMIT ${args.limit}
       `
     : sql`
-        SELECT id, conversation_id, sender, text, created_at
-        FROM messages
-        WHERE conversation_id = ${args.conversationId}::uuid
-          AND created_at < ${args.cursorCreatedAt}::timestamptz
-        ORDER BY created_at DESC, id DESC
+        SELECT m.id, m.conversation_id, m.sender, m.text, m.interrupted, m.kb_chunk_ids, m.contains_pii, m.client_message_id, m.created_at
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversation_id AND c.store_id = ${args.storeId}::uuid
+        WHERE m.conversation_id = ${args.conversationId}::uuid
+          AND m.created_at < ${args.cursorCreatedAt}::timestamptz
+        ORDER BY m.created_at DESC, m.id DESC
         LIMIT ${args.limit}
       `
 
@@ -104,3 +476,27 @@ export async function getOlderMessages(args: {
   return res.rows.slice().reverse()
 }
 
+/**
+ * Messages newer than a (created_at, id) position, oldest first. Used to
+ * replay what a live subscriber missed while it was reconnecting.
+ */
+export async function getNewerMessages(args: {
+  storeId: string
+  conversationId: string
+  afterCreatedAt: string
+  afterId: string
+  limit: number
+}) {
+  const q = sql`
+    SELECT m.id, m.conversation_id, m.sender, m.text, m.interrupted, m.kb_chunk_ids, m.contains_pii, m.client_message_id, m.created_at
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id AND c.store_id = ${args.storeId}::uuid
+    WHERE m.conversation_id = ${args.conversationId}::uuid
+      AND (m.created_at, m.id) > (${args.afterCreatedAt}::timestamptz, ${args.afterId}::uuid)
+    ORDER BY m.created_at ASC, m.id ASC
+    LIMIT ${args.limit}
+  `
+
+  const res = await pool.query<MessageRow>(q.text, q.values)
+  return res.rows
+}
@@ -0,0 +1,133 @@
+import { randomUUID } from 'node:crypto'
+import { pool, withTransaction } from '../db/pool.js'
+import { sql } from '../db/sql.js'
+
+export type CustomerRow = {
+  id: string
+  email: string
+  created_at: string
+  last_verified_at: string
+}
+
+export type VerificationCodeRow = {
+  id: string
+  session_id: string
+  email: string
+  code_hash: string
+  attempts: number
+  expires_at: string
+  consumed_at: string | null
+}
+
+export async function getCustomer(customerId: string) {
+  const q = sql`
+    SELECT id, email, created_at, last_verified_at
+    FROM customers
+    WHERE id = ${customerId}::uuid
+  `
+  const res = await pool.query<CustomerRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/** A customer by email, matched case-insensitively like verification does. */
+export async function findCustomerByEmail(email: string) {
+  const q = sql`
+    SELECT id, email, created_at, last_verified_at
+    FROM customers
+    WHERE lower(email) = lower(${email.trim()})
+  `
+  const res = await pool.query<CustomerRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * Store a new verification code for a session, replacing any code that
+ * session still had outstanding.
+ */
+export async function createVerificationCode(params: {
+  sessionId: string
+  email: string
+  codeHash: string
+  expiresAt: Date
+}) {
+  await withTransaction(async (client) => {
+    const expire = sql`
+      UPDATE customer_verification_codes
+      SET consumed_at = now()
+      WHERE session_id = ${params.sessionId}::uuid AND consumed_at IS NULL
+    `
+    await client.query(expire.text, expire.values)
+
+    const insert = sql`
+      INSERT INTO customer_verification_codes (id, session_id, email, code_hash, expires_at)
+      VALUES (${randomUUID()}, ${params.sessionId}::uuid, ${params.email}, ${params.codeHash}, ${params.expiresAt})
+    `
+    await client.query(insert.text, insert.values)
+  })
+}
+
+/**
+ * The session's outstanding (unconsumed, unexpired) code, if any.
+ */
+export async function getActiveVerificationCode(sessionId: string) {
+  const q = sql`
+    SELECT id, session_id, email, code_hash, attempts, expires_at, consumed_at
+    FROM customer_verification_codes
+    WHERE session_id = ${sessionId}::uuid
+      AND consumed_at IS NULL
+      AND expires_at > now()
+    ORDER BY created_at DESC
+    LIMIT 1
+  `
+  const res = await pool.query<VerificationCodeRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * Count a wrong guess. Returns the new attempt count.
+ */
+export async function recordFailedAttempt(codeId: string) {
+  const q = sql`
+    UPDATE customer_verification_codes
+    SET attempts = attempts + 1
+    WHERE id = ${codeId}::uuid
+    RETURNING attempts
+  `
+  const res = await pool.query<{ attempts: number }>(q.text, q.values)
+  return res.rows[0]?.attempts ?? 0
+}
+
+/**
+ * Consume a code and link the session's conversations to the customer with
+ * that email (created on first verification). Returns null if the code was
+ * already used, e.g. by a concurrent request.
+ */
+export async function completeVerification(params: { codeId: string; sessionId: string; email: string }) {
+  return await withTransaction(async (client) => {
+    const consume = sql`
+      UPDATE customer_verification_codes
+      SET consumed_at = now()
+      WHERE id = ${params.codeId}::uuid AND consumed_at IS NULL
+      RETURNING id
+    `
+    const consumed = await client.query(consume.text, consume.values)
+    if (consumed.rowCount === 0) return null
+
+    const upsert = sql`
+      INSERT INTO customers (id, email)
+      VALUES (${randomUUID()}, ${params.email})
+      ON CONFLICT (lower(email)) DO UPDATE SET last_verified_at = now()
+      RETURNING id, email, created_at, last_verified_at
+    `
+    const customer = (await client.query<CustomerRow>(upsert.text, upsert.values)).rows[0]!
+
+    const link = sql`
+      UPDATE conversations
+      SET customer_id = ${customer.id}::uuid
+      WHERE visitor_id = ${params.sessionId}::uuid
+    `
+    await client.query(link.text, link.values)
+
+    return customer
+  })
+}
@@ -0,0 +1,249 @@
+import { randomUUID } from 'node:crypto'
+import type pg from 'pg'
+import { pool, withTransaction } from '../db/pool.js'
+import { sql } from '../db/sql.js'
+
+export type KbDocumentRow = {
+  id: string
+  store_id: string
+  slug: string
+  title: string
+  latest_revision: number
+  published_revision: number | null
+  created_at: string
+  updated_at: string
+}
+
+export type KbRevisionRow = {
+  id: string
+  document_id: string
+  revision: number
+  title: string
+  body: string
+  note: string | null
+  created_at: string
+}
+
+export type KbChunkMatch = {
+  id: string
+  document_id: string
+  text: string
+  rank: number
+}
+
+/**
+ * Write one immutable revision plus its chunks. Must run inside the caller's
+ * transaction so the revision and its chunks land together.
+ */
+async function insertRevision(
+  client: pg.PoolClient,
+  args: { documentId: string; revision: number; title: string; body: string; note?: string; chunks: string[] }
+) {
+  const revisionId = randomUUID()
+  const insertRev = sql`
+    INSERT INTO kb_document_revisions (id, document_id, revision, title, body, note)
+    VALUES (${revisionId}::uuid, ${args.documentId}::uuid, ${args.revision}, ${args.title}, ${args.body}, ${args.note ?? null})
+  `
+  await client.query(insertRev.text, insertRev.values)
+
+  for (const [index, text] of args.chunks.entries()) {
+    const insertChunk = sql`
+      INSERT INTO kb_chunks (id, document_id, revision_id, chunk_index, text)
+      VALUES (${randomUUID()}::uuid, ${args.documentId}::uuid, ${revisionId}::uuid, ${index}, ${text})
+    `
+    await client.query(insertChunk.text, insertChunk.values)
+  }
+
+  return revisionId
+}
+
+/**
+ * Create a knowledge-base document with its first revision (and chunks), in
+ * one transaction. When publish is true, revision 1 becomes the live one.
+ *
+ * Slugs are unique per store. ON CONFLICT (store_id, slug) DO NOTHING makes
+ * this safe for boot-time seeding: an existing document is left untouched.
+ * Returns the new document id, or null if the slug already existed.
+ */
+export async function createDocument(args: {
+  storeId: string
+  slug: string
+  title: string
+  body: string
+  note?: string
+  chunks: string[]
+  publish: boolean
+}) {
+  return await withTransaction(async (client) => {
+    const id = randomUUID()
+    const insertDoc = sql`
+      INSERT INTO kb_documents (id, store_id, slug, title, body, latest_revision)
+      VALUES (${id}::uuid, ${args.storeId}::uuid, ${args.slug}, ${args.title}, ${args.body}, 1)
+      ON CONFLICT (store_id, slug) DO NOTHING
+    `
+    const res = await client.query(insertDoc.text, insertDoc.values)
+    if (res.rowCount === 0) return null
+
+    const revisionId = await insertRevision(client, { ...args, documentId: id, revision: 1 })
+
+    if (args.publish) {
+      const pub = sql`UPDATE kb_documents SET published_revision_id = ${revisionId}::uuid WHERE id = ${id}::uuid`
+      await client.query(pub.text, pub.values)
+    }
+
+    return id
+  })
+}
+
+/**
+ * Append a new revision to a document. The document row is locked so two
+ * concurrent edits get consecutive revision numbers rather than colliding.
+ * Returns the new revision number, or null if the document doesn't exist.
+ */
+export async function addRevision(args: {
+  documentId: string
+  title: string
+  body: string
+  note?: string
+  chunks: string[]
+}) {
+  return await withTransaction(async (client) => {
+    const lock = sql`SELECT latest_revision FROM kb_documents WHERE id = ${args.documentId}::uuid FOR UPDATE`
+    const locked = await client.query<{ latest_revision: number }>(lock.text, lock.values)
+    const current = locked.rows[0]
+    if (!current) return null
+
+    const revision = current.latest_revision + 1
+    await insertRevision(client, { ...args, revision })
+
+    const update = sql`
+      UPDATE kb_documents
+      SET title = ${args.title}, body = ${args.body}, latest_revision = ${revision}, updated_at = now()
+      WHERE id = ${args.documentId}::uuid
+    `
+    await client.query(update.text, update.values)
+
+    return revision
+  })
+}
+
+/**
+ * Make the given revision (default: the latest) the one the support agent reads.
+ * Returns the published revision number, or null if the document/revision doesn't exist.
+ */
+export async function publishRevision(documentId: string, revision?: number) {
+  const q = sql`
+    UPDATE kb_documents d
+    SET published_revision_id = r.id, updated_at = now()
+    FROM kb_document_revisions r
+    WHERE d.id = ${documentId}::uuid
+      AND r.document_id = d.id
+      AND r.revision = COALESCE(${revision ?? null}::int, d.latest_revision)
+    RETURNING r.revision
+  `
+  const res = await pool.query<{ revision: number }>(q.text, q.values)
+  return res.rows[0]?.revision ?? null
+}
+
+/**
+ * Take a document out of retrieval without deleting its history.
+ * Returns false if the document doesn't exist.
+ */
+export async function unpublishDocument(documentId: string) {
+  const q = sql`
+    UPDATE kb_documents
+    SET published_revision_id = NULL, updated_at = now()
+    WHERE id = ${documentId}::uuid
+  `
+  const res = await pool.query(q.text, q.values)
+  return (res.rowCount ?? 0) > 0
+}
+
+/**
+ * Delete a document; revisions and chunks go with it via ON DELETE CASCADE.
+ * Returns false if the document doesn't exist.
+ */
+export async function deleteDocument(documentId: string) {
+  const q = sql`DELETE FROM kb_documents WHERE id = ${documentId}::uuid`
+  const res = await pool.query(q.text, q.values)
+  return (res.rowCount ?? 0) > 0
+}
+
+/**
+ * List a store's documents, most recently changed first, optionally filtered
+ * by whether a revision is currently published.
+ */
+export async function listDocuments(args: { storeId: string; status?: 'published' | 'unpublished' }) {
+  const q = sql`
+    SELECT d.id, d.store_id, d.slug, d.title, d.latest_revision, r.revision AS published_revision, d.created_at, d.updated_at
+    FROM kb_documents d
+    LEFT JOIN kb_document_revisions r ON r.id = d.published_revision_id
+    WHERE d.store_id = ${args.storeId}::uuid
+      AND (${args.status ?? null}::text IS NULL
+      OR (${args.status ?? null}::text = 'published') = (d.published_revision_id IS NOT NULL))
+    ORDER BY d.updated_at DESC, d.id
+  `
+  const res = await pool.query<KbDocumentRow>(q.text, q.values)
+  return res.rows
+}
+
+export async function getDocument(documentId: string) {
+  const q = sql`
+    SELECT d.id, d.store_id, d.slug, d.title, d.latest_revision, r.revision AS published_revision, d.created_at, d.updated_at
+    FROM kb_documents d
+    LEFT JOIN kb_document_revisions r ON r.id = d.published_revision_id
+    WHERE d.id = ${documentId}::uuid
+  `
+  const res = await pool.query<KbDocumentRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * Revision history for a document, newest first.
+ */
+export async function listRevisions(documentId: string) {
+  const q = sql`
+    SELECT id, document_id, revision, title, body, note, created_at
+    FROM kb_document_revisions
+    WHERE document_id = ${documentId}::uuid
+    ORDER BY revision DESC
+  `
+  const res = await pool.query<KbRevisionRow>(q.text, q.values)
+  return res.rows
+}
+
+export async function getRevision(documentId: string, revision: number) {
+  const q = sql`
+    SELECT id, document_id, revision, title, body, note, created_at
+    FROM kb_document_revisions
+    WHERE document_id = ${documentId}::uuid AND revision = ${revision}
+  `
+  const res = await pool.query<KbRevisionRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * Full-text search over the chunks of a store's currently published
+ * revisions, best match first.
+ *
+ * The question is turned into an OR query over its stemmed terms (plain
+ * questions rarely contain every keyword of a policy), and results are ranked
+ * with ts_rank_cd normalized by document length (flag 1), which behaves much
+ * like BM25's length normalization for short policy chunks.
+ */
+export async function searchChunks(storeId: string, query: string, limit: number) {
+  const q = sql`
+    WITH query AS (
+      SELECT to_tsquery('english', replace(plainto_tsquery('english', ${query})::text, '&', '|')) AS tsq
+    )
+    SELECT c.id, c.document_id, c.text, ts_rank_cd(c.tsv, query.tsq, 1) AS rank
+    FROM kb_chunks c
+    JOIN kb_documents d ON d.published_revision_id = c.revision_id
+    CROSS JOIN query
+    WHERE d.store_id = ${storeId}::uuid AND c.tsv @@ query.tsq
+    ORDER BY rank DESC, c.id
+    LIMIT ${limit}
+  `
+  const res = await pool.query<KbChunkMatch>(q.text, q.values)
+  return res.rows
+}
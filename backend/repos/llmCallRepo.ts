@@ -0,0 +1,160 @@
+import { randomUUID } from 'node:crypto'
+import { pool } from '../db/pool.js'
+import { sql } from '../db/sql.js'
+import type { LlmUsage } from '../services/llm/usage.js'
+
+export type LlmCallPurpose = 'reply' | 'summary'
+
+export type UsageGroupBy = 'day' | 'model' | 'conversation'
+
+/**
+ * Aggregated usage for one group: a UTC day (YYYY-MM-DD), a model name or a
+ * conversation id. cost_usd only covers priced calls; unpriced_calls counts
+ * the rest. Sums are float8 so pg returns numbers rather than strings.
+ */
+export type UsageRow = {
+  key: string
+  calls: number
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number | null
+  unpriced_calls: number
+  avg_latency_ms: number
+}
+
+export type UsageTotals = Omit<UsageRow, 'key'>
+
+/**
+ * Record one LLM call. messageId is the AI message a reply produced and
+ * clientIp the address that asked for it; summary calls have neither.
+ */
+export async function insertLlmCall(params: {
+  conversationId: string
+  messageId: string | null
+  clientIp?: string | null
+  purpose: LlmCallPurpose
+  usage: LlmUsage
+}) {
+  const { usage } = params
+  const q = sql`
+    INSERT INTO llm_calls (id, conversation_id, message_id, client_ip, purpose, model, prompt_tokens, completion_tokens, cost_usd, latency_ms)
+    VALUES (${randomUUID()}, ${params.conversationId}, ${params.messageId}, ${params.clientIp ?? null}, ${params.purpose},
+      ${usage.model}, ${usage.promptTokens}, ${usage.completionTokens}, ${usage.costUsd}, ${usage.latencyMs})
+  `
+  await pool.query(q.text, q.values)
+}
+
+/**
+ * Tokens (prompt + completion) spent in one store's conversations since a
+ * point in time: by one visitor, by one client IP, and overall.
+ */
+export async function getTokensUsedSince(params: {
+  storeId: string
+  since: Date
+  visitorId: string
+  clientIp: string | null
+}) {
+  const q = sql`
+    SELECT
+      COALESCE(sum(l.prompt_tokens + l.completion_tokens) FILTER (WHERE c.visitor_id = ${params.visitorId}), 0)::float8 AS session,
+      COALESCE(sum(l.prompt_tokens + l.completion_tokens) FILTER (WHERE l.client_ip = ${params.clientIp}), 0)::float8 AS ip,
+      COALESCE(sum(l.prompt_tokens + l.completion_tokens), 0)::float8 AS global
+    FROM llm_calls l
+    JOIN conversations c ON c.id = l.conversation_id
+    WHERE c.store_id = ${params.storeId}::uuid AND l.created_at >= ${params.since}
+  `
+  const r = await pool.query<{ session: number; ip: number; global: number }>(q.text, q.values)
+  return r.rows[0]
+}
+
+/**
+ * A store's usage between from (inclusive) and to (exclusive), grouped by day
+ * (newest first), model or conversation (most expensive first, up to limit
+ * groups).
+ */
+export async function getUsageReport(params: {
+  storeId: string
+  groupBy: UsageGroupBy
+  from: Date
+  to: Date
+  limit: number
+}) {
+  const { storeId, from, to, limit } = params
+
+  const totalsQuery = sql`
+    SELECT
+      count(*)::int AS calls,
+      COALESCE(sum(prompt_tokens), 0)::float8 AS prompt_tokens,
+      COALESCE(sum(completion_tokens), 0)::float8 AS completion_tokens,
+      sum(cost_usd)::float8 AS cost_usd,
+      count(*) FILTER (WHERE cost_usd IS NULL)::int AS unpriced_calls,
+      COALESCE(round(avg(latency_ms)), 0)::int AS avg_latency_ms
+    FROM llm_calls
+    WHERE created_at >= ${from} AND created_at < ${to}
+      AND conversation_id IN (SELECT id FROM conversations WHERE store_id = ${storeId}::uuid)
+  `
+
+  let q: { text: string; values: unknown[] }
+  switch (params.groupBy) {
+    case 'day':
+      q = sql`
+        SELECT
+          to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS key,
+          count(*)::int AS calls,
+          sum(prompt_tokens)::float8 AS prompt_tokens,
+          sum(completion_tokens)::float8 AS completion_tokens,
+          sum(cost_usd)::float8 AS cost_usd,
+          count(*) FILTER (WHERE cost_usd IS NULL)::int AS unpriced_calls,
+          round(avg(latency_ms))::int AS avg_latency_ms
+        FROM llm_calls
+        WHERE created_at >= ${from} AND created_at < ${to}
+          AND conversation_id IN (SELECT id FROM conversations WHERE store_id = ${storeId}::uuid)
+        GROUP BY 1
+        ORDER BY 1 DESC
+        LIMIT ${limit}
+      `
+      break
+    case 'model':
+      q = sql`
+        SELECT
+          model AS key,
+          count(*)::int AS calls,
+          sum(prompt_tokens)::float8 AS prompt_tokens,
+          sum(completion_tokens)::float8 AS completion_tokens,
+          sum(cost_usd)::float8 AS cost_usd,
+          count(*) FILTER (WHERE cost_usd IS NULL)::int AS unpriced_calls,
+          round(avg(latency_ms))::int AS avg_latency_ms
+        FROM llm_calls
+        WHERE created_at >= ${from} AND created_at < ${to}
+          AND conversation_id IN (SELECT id FROM conversations WHERE store_id = ${storeId}::uuid)
+        GROUP BY model
+        ORDER BY cost_usd DESC NULLS LAST, prompt_tokens DESC
+        LIMIT ${limit}
+      `
+      break
+    case 'conversation':
+      q = sql`
+        SELECT
+          conversation_id::text AS key,
+          count(*)::int AS calls,
+          sum(prompt_tokens)::float8 AS prompt_tokens,
+          sum(completion_tokens)::float8 AS completion_tokens,
+          sum(cost_usd)::float8 AS cost_usd,
+          count(*) FILTER (WHERE cost_usd IS NULL)::int AS unpriced_calls,
+          round(avg(latency_ms))::int AS avg_latency_ms
+        FROM llm_calls
+        WHERE created_at >= ${from} AND created_at < ${to}
+          AND conversation_id IN (SELECT id FROM conversations WHERE store_id = ${storeId}::uuid)
+        GROUP BY conversation_id
+        ORDER BY cost_usd DESC NULLS LAST, prompt_tokens DESC
+        LIMIT ${limit}
+      `
+      break
+  }
+
+  const [totals, groups] = await Promise.all([
+    pool.query<UsageTotals>(totalsQuery.text, totalsQuery.values),
+    pool.query<UsageRow>(q.text, q.values)
+  ])
+  return { totals: totals.rows[0], rows: groups.rows }
+}
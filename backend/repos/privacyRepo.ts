@@ -0,0 +1,244 @@
+import { randomUUID } from 'node:crypto'
+import type pg from 'pg'
+import { pool, withTransaction } from '../db/pool.js'
+import { sql } from '../db/sql.js'
+import type { ConversationStatus, Sender } from './chatRepo.js'
+import type { ReturnItem, ReturnStatus } from './returnRepo.js'
+
+export type ErasureAction = 'deleted' | 'anonymized'
+export type ErasureTrigger = 'retention' | 'request'
+
+export type DataErasureRow = {
+  id: string
+  store_id: string
+  conversation_id: string
+  customer_id: string | null
+  action: ErasureAction
+  trigger: ErasureTrigger
+  reason: string | null
+  message_count: number
+  created_at: string
+}
+
+/** Everything stored about one conversation that came from the customer. */
+export type ExportedConversation = {
+  id: string
+  status: ConversationStatus
+  created_at: string
+  last_activity_at: string
+  messages: Array<{ id: string; sender: Sender; text: string; created_at: string }>
+  return_requests: Array<{
+    id: string
+    order_number: string
+    email: string
+    items: ReturnItem[]
+    reason: string
+    status: ReturnStatus
+    decision_note: string | null
+    created_at: string
+  }>
+}
+
+// Stands in for scrubbed free text
+const REMOVED = '[removed]'
+
+/** A conversation about to be erased, with what its audit row needs. */
+type ErasureCandidate = { id: string; store_id: string; customer_id: string | null; message_count: number }
+
+/**
+ * All of a store's conversations of a visitor (their session's conversations)
+ * or of a verified customer (across devices), oldest first, with their
+ * messages and return requests.
+ */
+export async function exportConversations(
+  storeId: string,
+  subject: { visitorId: string } | { customerId: string }
+) {
+  const q =
+    'visitorId' in subject
+      ? sql`
+          SELECT id, status, created_at, last_activity_at
+          FROM conversations
+          WHERE store_id = ${storeId}::uuid AND visitor_id = ${subject.visitorId}
+          ORDER BY created_at ASC, id ASC
+        `
+      : sql`
+          SELECT id, status, created_at, last_activity_at
+          FROM conversations
+          WHERE store_id = ${storeId}::uuid AND customer_id = ${subject.customerId}
+          ORDER BY created_at ASC, id ASC
+        `
+  const conversations = await pool.query<Omit<ExportedConversation, 'messages' | 'return_requests'>>(q.text, q.values)
+  const ids = conversations.rows.map((c) => c.id)
+  if (ids.length === 0) return []
+
+  const messagesQuery = sql`
+    SELECT id, conversation_id, sender, text, created_at
+    FROM messages
+    WHERE conversation_id = ANY(${ids}::uuid[])
+    ORDER BY created_at ASC, id ASC
+  `
+  const returnsQuery = sql`
+    SELECT id, conversation_id, order_number, email, items, reason, status, decision_note, created_at
+    FROM return_requests
+    WHERE conversation_id = ANY(${ids}::uuid[])
+    ORDER BY created_at ASC
+  `
+  const [messages, returns] = await Promise.all([
+    pool.query<ExportedConversation['messages'][number] & { conversation_id: string }>(messagesQuery.text, messagesQuery.values),
+    pool.query<ExportedConversation['return_requests'][number] & { conversation_id: string }>(returnsQuery.text, returnsQuery.values)
+  ])
+
+  return conversations.rows.map((c): ExportedConversation => ({
+    ...c,
+    messages: messages.rows
+      .filter((m) => m.conversation_id === c.id)
+      .map(({ conversation_id: _, ...m }) => m),
+    return_requests: returns.rows
+      .filter((r) => r.conversation_id === c.id)
+      .map(({ conversation_id: _, ...r }) => r)
+  }))
+}
+
+async function recordErasure(
+  client: pg.PoolClient,
+  params: {
+    storeId: string
+    conversationId: string
+    customerId: string | null
+    action: ErasureAction
+    trigger: ErasureTrigger
+    reason: string | null
+    messageCount: number
+  }
+) {
+  const q = sql`
+    INSERT INTO data_erasures (id, store_id, conversation_id, customer_id, action, trigger, reason, message_count)
+    VALUES (${randomUUID()}, ${params.storeId}::uuid, ${params.conversationId}, ${params.customerId}, ${params.action},
+      ${params.trigger}, ${params.reason}, ${params.messageCount})
+    RETURNING id, store_id, conversation_id, customer_id, action, trigger, reason, message_count, created_at
+  `
+  const r = await client.query<DataErasureRow>(q.text, q.values)
+  return r.rows[0]
+}
+
+/**
+ * Hard-delete one of a store's conversations on request. Messages, tool calls,
+ * summaries, usage rows and return requests go with it (ON DELETE CASCADE);
+ * the audit row stays. Returns null when the store has no such conversation.
+ */
+export async function deleteConversation(params: { storeId: string; conversationId: string; reason: string | null }) {
+  return withTransaction(async (client) => {
+    const find = sql`
+      SELECT c.id, c.store_id, c.customer_id,
+        (SELECT count(*)::int FROM messages m WHERE m.conversation_id = c.id) AS message_count
+      FROM conversations c
+      WHERE c.store_id = ${params.storeId}::uuid AND c.id = ${params.conversationId}
+      FOR UPDATE
+    `
+    const found = await client.query<ErasureCandidate>(
+      find.text,
+      find.values
+    )
+    const row = found.rows[0]
+    if (!row) return null
+
+    const del = sql`DELETE FROM conversations WHERE id = ${row.id}`
+    await client.query(del.text, del.values)
+
+    return recordErasure(client, {
+      storeId: row.store_id,
+      conversationId: row.id,
+      customerId: row.customer_id,
+      action: 'deleted',
+      trigger: 'request',
+      reason: params.reason,
+      messageCount: row.message_count
+    })
+  })
+}
+
+/**
+ * Delete or anonymize up to `limit` conversations with no activity since
+ * `inactiveSince`, recording each in data_erasures. Anonymizing keeps the
+ * conversation and its counts (for usage and support metrics) but scrubs the
+ * free text and anything tying it to a person. Rows locked by another
+ * instance's sweep are skipped. Returns how many conversations were erased.
+ */
+export async function eraseInactiveConversations(params: { action: ErasureAction; inactiveSince: Date; limit: number }) {
+  return withTransaction(async (client) => {
+    const find = sql`
+      SELECT c.id, c.store_id, c.customer_id,
+        (SELECT count(*)::int FROM messages m WHERE m.conversation_id = c.id) AS message_count
+      FROM conversations c
+      WHERE c.last_activity_at < ${params.inactiveSince}
+        -- Anonymized conversations come back round only if they saw new messages since
+        AND (${params.action}::text = 'deleted' OR c.anonymized_at IS NULL OR c.anonymized_at < c.last_activity_at)
+      ORDER BY c.last_activity_at ASC
+      LIMIT ${params.limit}
+      FOR UPDATE SKIP LOCKED
+    `
+    const found = await client.query<ErasureCandidate>(find.text, find.values)
+    const ids = found.rows.map((r) => r.id)
+    if (ids.length === 0) return 0
+
+    const statements =
+      params.action === 'deleted'
+        ? [sql`DELETE FROM conversations WHERE id = ANY(${ids}::uuid[])`]
+        : [
+            sql`UPDATE messages SET text = ${REMOVED}, contains_pii = false WHERE conversation_id = ANY(${ids}::uuid[])`,
+            sql`UPDATE llm_tool_calls SET args = '{}', result = ${REMOVED} WHERE conversation_id = ANY(${ids}::uuid[])`,
+            sql`
+              UPDATE return_requests SET email = ${REMOVED}, reason = ${REMOVED}, decision_note = NULL
+              WHERE conversation_id = ANY(${ids}::uuid[])
+            `,
+            sql`UPDATE llm_calls SET client_ip = NULL WHERE conversation_id = ANY(${ids}::uuid[])`,
+            sql`DELETE FROM conversation_summaries WHERE conversation_id = ANY(${ids}::uuid[])`,
+            sql`DELETE FROM idempotency_keys WHERE conversation_id = ANY(${ids}::uuid[])`,
+            sql`DELETE FROM customer_verification_codes WHERE session_id = ANY(${ids}::uuid[])`,
+            sql`UPDATE conversations SET customer_id = NULL, anonymized_at = now() WHERE id = ANY(${ids}::uuid[])`
+          ]
+    for (const q of statements) await client.query(q.text, q.values)
+
+    for (const row of found.rows) {
+      await recordErasure(client, {
+        storeId: row.store_id,
+        conversationId: row.id,
+        customerId: row.customer_id,
+        action: params.action,
+        trigger: 'retention',
+        reason: null,
+        messageCount: row.message_count
+      })
+    }
+    return ids.length
+  })
+}
+
+/**
+ * Delete customers (their email) who haven't verified since `inactiveSince`
+ * and no longer have any conversation linked to them.
+ */
+export async function deleteOrphanedCustomers(inactiveSince: Date) {
+  const q = sql`
+    DELETE FROM customers c
+    WHERE COALESCE(c.last_verified_at, c.created_at) < ${inactiveSince}
+      AND NOT EXISTS (SELECT 1 FROM conversations WHERE customer_id = c.id)
+  `
+  const r = await pool.query(q.text, q.values)
+  return r.rowCount ?? 0
+}
+
+/** A store's erasure audit log, newest first, optionally for one conversation. */
+export async function listDataErasures(params: { storeId: string; conversationId?: string; limit: number }) {
+  const q = sql`
+    SELECT id, store_id, conversation_id, customer_id, action, trigger, reason, message_count, created_at
+    FROM data_erasures
+    WHERE store_id = ${params.storeId}::uuid
+      AND (${params.conversationId ?? null}::uuid IS NULL OR conversation_id = ${params.conversationId ?? null})
+    ORDER BY created_at DESC
+    LIMIT ${params.limit}
+  `
+  const r = await pool.query<DataErasureRow>(q.text, q.values)
+  return r.rows
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from 'node:crypto'
+import type pg from 'pg'
+import { pool } from '../db/pool.js'
+import { sql } from '../db/sql.js'
+
+/**
+ * Return request lifecycle:
+ * - requested: created from chat, waiting for staff
+ * - approved: staff accepted it; the customer can send the items back
+ * - rejected: staff declined it (the order may get a new request later)
+ * - refunded: items received and the refund issued
+ */
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'refunded'
+
+export type ReturnItem = { sku: string; name: string; quantity: number }
+
+export type ReturnRequestRow = {
+  id: string
+  store_id: string
+  conversation_id: string
+  order_number: string
+  email: string
+  items: ReturnItem[]
+  reason: string
+  status: ReturnStatus
+  decision_note: string | null
+  decided_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Create a return request. Returns null if the order already has a return
+ * that wasn't rejected (see uq_return_requests_active_order).
+ */
+export async function createReturnRequest(params: {
+  storeId: string
+  conversationId: string
+  orderNumber: string
+  email: string
+  items: ReturnItem[]
+  reason: string
+}) {
+  const q = sql`
+    INSERT INTO return_requests (id, store_id, conversation_id, order_number, email, items, reason)
+    VALUES (${randomUUID()}, ${params.storeId}::uuid, ${params.conversationId}::uuid, ${params.orderNumber}, ${params.email},
+      ${JSON.stringify(params.items)}::jsonb, ${params.reason})
+    ON CONFLICT DO NOTHING
+    RETURNING id, store_id, conversation_id, order_number, email, items, reason, status, decision_note, decided_at, created_at, updated_at
+  `
+  const res = await pool.query<ReturnRequestRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+export async function getReturnRequest(storeId: string, id: string) {
+  const q = sql`
+    SELECT id, store_id, conversation_id, order_number, email, items, reason, status, decision_note, decided_at, created_at, updated_at
+    FROM return_requests
+    WHERE store_id = ${storeId}::uuid AND id = ${id}::uuid
+  `
+  const res = await pool.query<ReturnRequestRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * The newest return request for one of a store's orders, so the customer can
+ * ask how it's going.
+ */
+export async function getLatestReturnForOrder(storeId: string, orderNumber: string) {
+  const q = sql`
+    SELECT id, store_id, conversation_id, order_number, email, items, reason, status, decision_note, decided_at, created_at, updated_at
+    FROM return_requests
+    WHERE store_id = ${storeId}::uuid AND upper(order_number) = upper(${orderNumber})
+    ORDER BY created_at DESC
+    LIMIT 1
+  `
+  const res = await pool.query<ReturnRequestRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * Admin listing for one store, oldest first so requests are worked in arrival order.
+ */
+export async function listReturnRequests(args: { storeId: string; statuses?: ReturnStatus[]; limit: number }) {
+  const q = sql`
+    SELECT id, store_id, conversation_id, order_number, email, items, reason, status, decision_note, decided_at, created_at, updated_at
+    FROM return_requests
+    WHERE store_id = ${args.storeId}::uuid
+      AND (${args.statuses ?? null}::text[] IS NULL OR status = ANY(${args.statuses ?? null}::text[]))
+    ORDER BY created_at ASC
+    LIMIT ${args.limit}
+  `
+  const res = await pool.query<ReturnRequestRow>(q.text, q.values)
+  return res.rows
+}
+
+/**
+ * Move one of a store's return requests to a new status if it is currently in
+ * one of the `from` statuses. Returns the updated row, or null if the guard
+ * didn't match. Pass client to run it inside a transaction.
+ */
+export async function transitionReturnRequest(args: {
+  storeId: string
+  id: string
+  from: ReturnStatus[]
+  to: ReturnStatus
+  note?: string | null
+  client?: pg.PoolClient
+}) {
+  const q = sql`
+    UPDATE return_requests
+    SET status = ${args.to},
+        decision_note = COALESCE(${args.note ?? null}, decision_note),
+        decided_at = CASE WHEN ${args.to} IN ('approved', 'rejected') THEN now() ELSE decided_at END,
+        updated_at = now()
+    WHERE store_id = ${args.storeId}::uuid AND id = ${args.id}::uuid
+      AND status = ANY(${args.from}::text[])
+    RETURNING id, store_id, conversation_id, order_number, email, items, reason, status, decision_note, decided_at, created_at, updated_at
+  `
+  const res = await (args.client ?? pool).query<ReturnRequestRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
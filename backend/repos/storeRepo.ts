@@ -0,0 +1,118 @@
+import { randomUUID } from 'node:crypto'
+import { pool } from '../db/pool.js'
+import { sql } from '../db/sql.js'
+
+/** The store everything created before multi-store support belongs to (see migration 0004). */
+export const DEFAULT_STORE_ID = '00000000-0000-0000-0000-000000000001'
+
+/**
+ * What the chat widget shows for a store. Every field is optional; the widget
+ * falls back to its own defaults.
+ */
+export type StoreBranding = {
+  title?: string
+  subtitle?: string
+  greeting?: string
+  // CSS colour for the launcher, the customer's bubbles and the send button
+  accentColor?: string
+  suggestions?: string[]
+}
+
+/**
+ * A storefront. key is the public identifier the widget sends; system_prompt
+ * and model are null to use the built-in prompt and LLM_MODEL.
+ */
+export type StoreRow = {
+  id: string
+  key: string
+  name: string
+  system_prompt: string | null
+  model: string | null
+  cors_origins: string[]
+  branding: StoreBranding
+  created_at: string
+  updated_at: string
+}
+
+export async function getStore(storeId: string) {
+  const q = sql`
+    SELECT id, key, name, system_prompt, model, cors_origins, branding, created_at, updated_at
+    FROM stores
+    WHERE id = ${storeId}::uuid
+  `
+  const res = await pool.query<StoreRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+export async function getStoreByKey(key: string) {
+  const q = sql`
+    SELECT id, key, name, system_prompt, model, cors_origins, branding, created_at, updated_at
+    FROM stores
+    WHERE key = ${key}
+  `
+  const res = await pool.query<StoreRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+export async function listStores() {
+  const q = sql`
+    SELECT id, key, name, system_prompt, model, cors_origins, branding, created_at, updated_at
+    FROM stores
+    ORDER BY created_at ASC, key ASC
+  `
+  const res = await pool.query<StoreRow>(q.text, q.values)
+  return res.rows
+}
+
+/**
+ * Create a store. Returns null if the key is already taken.
+ */
+export async function createStore(args: {
+  key: string
+  name: string
+  systemPrompt: string | null
+  model: string | null
+  corsOrigins: string[]
+  branding: StoreBranding
+}) {
+  const q = sql`
+    INSERT INTO stores (id, key, name, system_prompt, model, cors_origins, branding)
+    VALUES (${randomUUID()}::uuid, ${args.key}, ${args.name}, ${args.systemPrompt}, ${args.model},
+      ${args.corsOrigins}::text[], ${JSON.stringify(args.branding)}::jsonb)
+    ON CONFLICT (key) DO NOTHING
+    RETURNING id, key, name, system_prompt, model, cors_origins, branding, created_at, updated_at
+  `
+  const res = await pool.query<StoreRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * Change some of a store's settings; fields left undefined keep their value,
+ * null resets system_prompt or model to the built-in default. The key can't
+ * change, since widgets are deployed with it. Returns null if there is no
+ * such store.
+ */
+export async function updateStore(
+  storeId: string,
+  changes: {
+    name?: string
+    systemPrompt?: string | null
+    model?: string | null
+    corsOrigins?: string[]
+    branding?: StoreBranding
+  }
+) {
+  const q = sql`
+    UPDATE stores
+    SET name = COALESCE(${changes.name ?? null}, name),
+        system_prompt = CASE WHEN ${changes.systemPrompt !== undefined}::boolean THEN ${changes.systemPrompt ?? null} ELSE system_prompt END,
+        model = CASE WHEN ${changes.model !== undefined}::boolean THEN ${changes.model ?? null} ELSE model END,
+        cors_origins = COALESCE(${changes.corsOrigins ?? null}::text[], cors_origins),
+        branding = COALESCE(${changes.branding ? JSON.stringify(changes.branding) : null}::jsonb, branding),
+        updated_at = now()
+    WHERE id = ${storeId}::uuid
+    RETURNING id, key, name, system_prompt, model, cors_origins, branding, created_at, updated_at
+  `
+  const res = await pool.query<StoreRow>(q.text, q.values)
+  return res.rows[0] ?? null
+}
@@ -0,0 +1,65 @@
+import { pool } from '../db/pool.js'
+import { sql } from '../db/sql.js'
+
+export type ConversationSummaryRecord = {
+  conversation_id: string
+  summary: string
+  through_created_at: string
+  through_message_id: string
+  summarized_messages: number
+  updated_at: string
+}
+
+export async function getConversationSummary(conversationId: string) {
+  const q = sql`
+    SELECT conversation_id, summary, through_created_at, through_message_id, summarized_messages, updated_at
+    FROM conversation_summaries
+    WHERE conversation_id = ${conversationId}::uuid
+  `
+  const res = await pool.query<ConversationSummaryRecord>(q.text, q.values)
+  return res.rows[0] ?? null
+}
+
+/**
+ * Messages in a conversation after the given (created_at, id) position, or
+ * all of them when `after` is null.
+ */
+export async function countMessagesAfter(conversationId: string, after: { createdAt: string; id: string } | null) {
+  const q = sql`
+    SELECT count(*)::int AS count
+    FROM messages
+    WHERE conversation_id = ${conversationId}::uuid
+      AND (${after?.createdAt ?? null}::timestamptz IS NULL
+        OR (created_at, id) > (${after?.createdAt ?? null}::timestamptz, ${after?.id ?? null}::uuid))
+  `
+  const res = await pool.query<{ count: number }>(q.text, q.values)
+  return res.rows[0]?.count ?? 0
+}
+
+/**
+ * Store a conversation's summary. Summaries only move forward: a slower
+ * concurrent refresh that covers fewer messages doesn't overwrite a newer one.
+ */
+export async function saveConversationSummary(args: {
+  conversationId: string
+  summary: string
+  throughCreatedAt: string
+  throughMessageId: string
+  summarizedMessages: number
+}) {
+  const q = sql`
+    INSERT INTO conversation_summaries (conversation_id, summary, through_created_at, through_message_id, summarized_messages)
+    VALUES (${args.conversationId}::uuid, ${args.summary}, ${args.throughCreatedAt}::timestamptz,
+      ${args.throughMessageId}::uuid, ${args.summarizedMessages})
+    ON CONFLICT (conversation_id) DO UPDATE
+      SET summary = EXCLUDED.summary,
+          through_created_at = EXCLUDED.through_created_at,
+          through_message_id = EXCLUDED.through_message_id,
+          summarized_messages = EXCLUDED.summarized_messages,
+          updated_at = now()
+      WHERE (conversation_summaries.through_created_at, conversation_summaries.through_message_id)
+        < (EXCLUDED.through_created_at, EXCLUDED.through_message_id)
+  `
+  const res = await pool.query(q.text, q.values)
+  return (res.rowCount ?? 0) > 0
+}
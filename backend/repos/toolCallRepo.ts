@@ -0,0 +1,26 @@
+import { randomUUID } from 'node:crypto'
+import { pool } from '../db/pool.js'
+import { sql } from '../db/sql.js'
+
+export type ToolCallInput = {
+  name: string
+  args: Record<string, unknown>
+  ok: boolean
+  result: string
+  durationMs: number
+}
+
+/**
+ * Record the tool calls the model made while producing an AI message.
+ */
+export async function insertToolCalls(params: { messageId: string; conversationId: string; calls: ToolCallInput[] }) {
+  for (const call of params.calls) {
+    const q = sql`
+      INSERT INTO llm_tool_calls (id, message_id, conversation_id, tool_name, args, ok, result, duration_ms)
+      VALUES (${randomUUID()}, ${params.messageId}, ${params.conversationId}, ${call.name},
+        ${JSON.stringify(call.args)}, ${call.ok}, ${call.result}, ${call.durationMs})
+    `
+    await pool.query(q.text, q.values)
+  }
+}
+
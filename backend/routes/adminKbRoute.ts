@@ -0,0 +1,169 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { log } from '../logger.js'
+import {
+  deleteDocument,
+  getDocument,
+  getRevision,
+  listDocuments,
+  listRevisions,
+  publishRevision,
+  unpublishDocument
+} from '../repos/kbRepo.js'
+import { createKbDocument, reviseKbDocument } from '../services/kb/knowledgeBase.js'
+import { getRequestStore } from '../middleware/storeMiddleware.js'
+import { createHandle } from './handle.js'
+
+/**
+ * Knowledge-base admin router, mounted under /api/v1/admin/kb behind
+ * requireAdmin and selectStore. Each store has its own documents: listing and
+ * creating act on the store named by `X-Store-Key`; the /:id routes address a
+ * document directly.
+ *
+ * Every edit creates a new immutable revision; the support agent only ever
+ * reads the revision that is currently published.
+ * - GET    /                                   list documents (?status=published|unpublished)
+ * - POST   /                                   create a document (revision 1)
+ * - GET    /:id                                document + revision history
+ * - PUT    /:id                                save a new revision
+ * - GET    /:id/revisions/:revision            a single revision
+ * - POST   /:id/publish                        publish latest (or { revision }) revision
+ * - POST   /:id/unpublish                      remove from retrieval, keep history
+ * - DELETE /:id                                delete document and all revisions
+ */
+const router = Router()
+
+const idParamsSchema = z.object({ id: z.string().uuid() })
+
+const listQuerySchema = z.object({
+  status: z.enum(['published', 'unpublished']).optional()
+})
+
+const createSchema = z.object({
+  slug: z.string().trim().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'lowercase letters, digits and dashes').max(100),
+  title: z.string().trim().min(1).max(200),
+  body: z.string().trim().min(1).max(50_000),
+  note: z.string().trim().max(500).optional(),
+  publish: z.boolean().default(false)
+})
+
+const updateSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200).optional(),
+    body: z.string().trim().min(1).max(50_000).optional(),
+    note: z.string().trim().max(500).optional(),
+    publish: z.boolean().default(false)
+  })
+  .refine((v) => v.title !== undefined || v.body !== undefined, { message: 'title or body is required' })
+
+const publishSchema = z.object({
+  revision: z.number().int().positive().optional()
+})
+
+const handle = createHandle('admin.kb')
+
+router.get('/', handle('list', async (req, res) => {
+  const parsed = listQuerySchema.safeParse(req.query)
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const documents = await listDocuments({ storeId: getRequestStore(res).id, status: parsed.data.status })
+  return res.json({ documents })
+}))
+
+router.post('/', handle('create', async (req, res, requestId) => {
+  const parsed = createSchema.safeParse(req.body)
+  if (!parsed.success) {
+    log('warn', 'admin.kb.create.validation_failed', { requestId, issues: parsed.error.issues })
+    return res.status(400).json({ error: 'Invalid request', issues: parsed.error.issues })
+  }
+
+  const id = await createKbDocument({ ...parsed.data, storeId: getRequestStore(res).id })
+  if (!id) return res.status(409).json({ error: 'A document with this slug already exists' })
+
+  log('info', 'admin.kb.created', { requestId, documentId: id, slug: parsed.data.slug, published: parsed.data.publish })
+  return res.status(201).json({ document: await getDocument(id) })
+}))
+
+router.get('/:id', handle('get', async (req, res) => {
+  const params = idParamsSchema.safeParse(req.params)
+  if (!params.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const document = await getDocument(params.data.id)
+  if (!document) return res.status(404).json({ error: 'Document not found' })
+
+  const revisions = await listRevisions(params.data.id)
+  return res.json({ document, revisions })
+}))
+
+router.put('/:id', handle('update', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  const parsed = updateSchema.safeParse(req.body)
+  if (!params.success || !parsed.success) {
+    return res.status(400).json({ error: 'Invalid request', issues: parsed.success ? undefined : parsed.error.issues })
+  }
+
+  const documentId = params.data.id
+  const latest = await getDocument(documentId)
+  if (!latest) return res.status(404).json({ error: 'Document not found' })
+
+  // Partial updates carry over the other field from the latest revision
+  const current = await getRevision(documentId, latest.latest_revision)
+  if (!current) return res.status(404).json({ error: 'Document not found' })
+  const revision = await reviseKbDocument({
+    documentId,
+    title: parsed.data.title ?? current.title,
+    body: parsed.data.body ?? current.body,
+    note: parsed.data.note
+  })
+  if (revision === null) return res.status(404).json({ error: 'Document not found' })
+
+  if (parsed.data.publish) await publishRevision(documentId, revision)
+
+  log('info', 'admin.kb.revised', { requestId, documentId, revision, published: parsed.data.publish })
+  return res.json({ document: await getDocument(documentId) })
+}))
+
+router.get('/:id/revisions/:revision', handle('get_revision', async (req, res) => {
+  const params = idParamsSchema.extend({ revision: z.coerce.number().int().positive() }).safeParse(req.params)
+  if (!params.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const revision = await getRevision(params.data.id, params.data.revision)
+  if (!revision) return res.status(404).json({ error: 'Revision not found' })
+  return res.json({ revision })
+}))
+
+router.post('/:id/publish', handle('publish', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  const parsed = publishSchema.safeParse(req.body ?? {})
+  if (!params.success || !parsed.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const revision = await publishRevision(params.data.id, parsed.data.revision)
+  if (revision === null) return res.status(404).json({ error: 'Document or revision not found' })
+
+  log('info', 'admin.kb.published', { requestId, documentId: params.data.id, revision })
+  return res.json({ document: await getDocument(params.data.id) })
+}))
+
+router.post('/:id/unpublish', handle('unpublish', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  if (!params.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const ok = await unpublishDocument(params.data.id)
+  if (!ok) return res.status(404).json({ error: 'Document not found' })
+
+  log('info', 'admin.kb.unpublished', { requestId, documentId: params.data.id })
+  return res.json({ document: await getDocument(params.data.id) })
+}))
+
+router.delete('/:id', handle('delete', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  if (!params.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const ok = await deleteDocument(params.data.id)
+  if (!ok) return res.status(404).json({ error: 'Document not found' })
+
+  log('info', 'admin.kb.deleted', { requestId, documentId: params.data.id })
+  return res.status(204).end()
+}))
+
+export default router
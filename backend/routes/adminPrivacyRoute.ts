@@ -0,0 +1,97 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { log } from '../logger.js'
+import { getRequestStore } from '../middleware/storeMiddleware.js'
+import { findCustomerByEmail, getCustomer } from '../repos/customerRepo.js'
+import { deleteConversation, exportConversations, listDataErasures } from '../repos/privacyRepo.js'
+import { createHandle } from './handle.js'
+
+/**
+ * Privacy admin router, mounted under /api/v1/admin/privacy behind
+ * requireAdmin and selectStore.
+ *
+ * For data subject requests (GDPR access and erasure) within the selected
+ * store; customers are shared between stores, but only this store's
+ * conversations are exported or deleted:
+ * - GET    /export              ?sessionId= | ?customerId= | ?email=  (exactly one)
+ *                               every conversation of the visitor or customer as JSON
+ * - DELETE /conversations/:id   hard-delete a conversation and everything in it;
+ *                               body { reason? } is kept in the audit log
+ * - GET    /erasures            ?conversationId=&limit=  the audit log, newest first
+ */
+const router = Router()
+
+const exportQuerySchema = z
+  .object({
+    sessionId: z.string().uuid().optional(),
+    customerId: z.string().uuid().optional(),
+    email: z.string().trim().email().optional()
+  })
+  .refine((v) => [v.sessionId, v.customerId, v.email].filter(Boolean).length === 1, {
+    message: 'Give exactly one of sessionId, customerId or email'
+  })
+
+const idParamsSchema = z.object({ id: z.string().uuid() })
+
+const deleteBodySchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional()
+})
+
+const erasuresQuerySchema = z.object({
+  conversationId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+})
+
+const handle = createHandle('admin.privacy')
+
+router.get('/export', handle('export', async (req, res, requestId) => {
+  const parsed = exportQuerySchema.safeParse(req.query)
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const store = getRequestStore(res)
+  const { sessionId, customerId, email } = parsed.data
+  if (sessionId) {
+    const conversations = await exportConversations(store.id, { visitorId: sessionId })
+    log('info', 'admin.privacy.exported', { requestId, sessionId, conversations: conversations.length })
+    return res.json({ exportedAt: new Date().toISOString(), subject: { sessionId }, customer: null, conversations })
+  }
+
+  const customer = customerId ? await getCustomer(customerId) : await findCustomerByEmail(email ?? '')
+  if (!customer) return res.status(404).json({ error: 'Customer not found' })
+
+  const conversations = await exportConversations(store.id, { customerId: customer.id })
+  log('info', 'admin.privacy.exported', { requestId, customerId: customer.id, conversations: conversations.length })
+  return res.json({
+    exportedAt: new Date().toISOString(),
+    subject: { customerId: customer.id },
+    customer,
+    conversations
+  })
+}))
+
+router.delete('/conversations/:id', handle('delete', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  const body = deleteBodySchema.safeParse(req.body ?? {})
+  if (!params.success || !body.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const conversationId = params.data.id
+  const erasure = await deleteConversation({
+    storeId: getRequestStore(res).id,
+    conversationId,
+    reason: body.data.reason ?? null
+  })
+  if (!erasure) return res.status(404).json({ error: 'Conversation not found' })
+
+  log('info', 'admin.privacy.deleted', { requestId, conversationId, messageCount: erasure.message_count })
+  return res.json({ erasure })
+}))
+
+router.get('/erasures', handle('erasures', async (req, res) => {
+  const parsed = erasuresQuerySchema.safeParse(req.query)
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const erasures = await listDataErasures({ storeId: getRequestStore(res).id, ...parsed.data })
+  return res.json({ erasures })
+}))
+
+export default router
@@ -0,0 +1,81 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { log } from '../logger.js'
+import { getRequestStore } from '../middleware/storeMiddleware.js'
+import { getReturnRequest, listReturnRequests } from '../repos/returnRepo.js'
+import { decideReturn, type ReturnDecision } from '../services/returns.js'
+import { createHandle } from './handle.js'
+
+/**
+ * Return-request admin router, mounted under /api/v1/admin/returns behind
+ * requireAdmin and selectStore; every route only sees the selected store's requests.
+ *
+ * Requests are created by the support agent from chat; staff decide them here
+ * and each decision is posted back into the customer's conversation.
+ * - GET  /               list requests (?status=requested,approved,...)
+ * - GET  /:id            a single request
+ * - POST /:id/approve    requested -> approved ({ note? })
+ * - POST /:id/reject     requested -> rejected ({ note? })
+ * - POST /:id/refund     approved -> refunded ({ note? })
+ */
+const router = Router()
+
+const idParamsSchema = z.object({ id: z.string().uuid() })
+
+const listQuerySchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .transform((v) => (v ? v.split(',').map((s) => s.trim()) : undefined))
+    .pipe(z.array(z.enum(['requested', 'approved', 'rejected', 'refunded'])).optional()),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+const decisionSchema = z.object({
+  note: z.string().trim().min(1).max(1000).optional()
+})
+
+const handle = createHandle('admin.returns')
+
+router.get('/', handle('list', async (req, res) => {
+  const parsed = listQuerySchema.safeParse(req.query)
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const store = getRequestStore(res)
+  const returns = await listReturnRequests({ storeId: store.id, statuses: parsed.data.status, limit: parsed.data.limit })
+  return res.json({ returns })
+}))
+
+router.get('/:id', handle('get', async (req, res) => {
+  const params = idParamsSchema.safeParse(req.params)
+  if (!params.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const request = await getReturnRequest(getRequestStore(res).id, params.data.id)
+  if (!request) return res.status(404).json({ error: 'Return request not found' })
+  return res.json({ return: request })
+}))
+
+function decisionRoute(decision: ReturnDecision) {
+  return handle(decision, async (req, res, requestId) => {
+    const params = idParamsSchema.safeParse(req.params)
+    const body = decisionSchema.safeParse(req.body ?? {})
+    if (!params.success || !body.success) return res.status(400).json({ error: 'Invalid request' })
+
+    const store = getRequestStore(res)
+    const request = await decideReturn(store.id, params.data.id, decision, body.data.note)
+    if (!request) {
+      const current = await getReturnRequest(store.id, params.data.id)
+      if (!current) return res.status(404).json({ error: 'Return request not found' })
+      return res.status(409).json({ error: `Cannot ${decision} a return that is ${current.status}`, return: current })
+    }
+
+    log('info', `admin.returns.${decision}`, { requestId, returnId: request.id, sessionId: request.conversation_id })
+    return res.json({ return: request })
+  })
+}
+
+router.post('/:id/approve', decisionRoute('approve'))
+router.post('/:id/reject', decisionRoute('reject'))
+router.post('/:id/refund', decisionRoute('refund'))
+
+export default router
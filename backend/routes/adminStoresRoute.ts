@@ -0,0 +1,109 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { log } from '../logger.js'
+import { createStore, getStoreByKey, listStores, updateStore } from '../repos/storeRepo.js'
+import { invalidateStoreCache } from '../services/stores.js'
+import { createHandle } from './handle.js'
+
+/**
+ * Store admin router, mounted under /api/v1/admin/stores behind requireAdmin.
+ *
+ * A store is one storefront served by this backend, with its own prompt,
+ * model, allowed origins, widget branding and knowledge base (see
+ * /api/v1/admin/kb with `X-Store-Key`).
+ * - GET   /       list stores
+ * - POST  /       create a store
+ * - GET   /:key   one store
+ * - PATCH /:key   change a store's settings (the key itself is fixed)
+ */
+const router = Router()
+
+const keyParamsSchema = z.object({
+  key: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/).max(64)
+})
+
+const brandingSchema = z
+  .object({
+    title: z.string().trim().min(1).max(60),
+    subtitle: z.string().trim().min(1).max(120),
+    greeting: z.string().trim().min(1).max(500),
+    accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'a hex colour like #1d4ed8'),
+    suggestions: z.array(z.string().trim().min(1).max(80)).max(6)
+  })
+  .partial()
+  .strict()
+
+const settingsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  // null falls back to the built-in persona / LLM_MODEL
+  systemPrompt: z.string().trim().min(1).max(10_000).nullable(),
+  model: z.string().trim().min(1).max(100).nullable(),
+  corsOrigins: z.array(z.string().url().transform((u) => new URL(u).origin)).max(20),
+  branding: brandingSchema
+})
+
+const createSchema = settingsSchema
+  .partial({ systemPrompt: true, model: true, corsOrigins: true, branding: true })
+  .extend({ key: keyParamsSchema.shape.key })
+
+const updateSchema = settingsSchema
+  .partial()
+  .refine((v) => Object.keys(v).length > 0, { message: 'Nothing to change' })
+
+const handle = createHandle('admin.stores')
+
+router.get('/', handle('list', async (_req, res) => {
+  const stores = await listStores()
+  return res.json({ stores })
+}))
+
+router.post('/', handle('create', async (req, res, requestId) => {
+  const parsed = createSchema.safeParse(req.body)
+  if (!parsed.success) {
+    log('warn', 'admin.stores.create.validation_failed', { requestId, issues: parsed.error.issues })
+    return res.status(400).json({ error: 'Invalid request', issues: parsed.error.issues })
+  }
+
+  const store = await createStore({
+    key: parsed.data.key,
+    name: parsed.data.name,
+    systemPrompt: parsed.data.systemPrompt ?? null,
+    model: parsed.data.model ?? null,
+    corsOrigins: parsed.data.corsOrigins ?? [],
+    branding: parsed.data.branding ?? {}
+  })
+  if (!store) return res.status(409).json({ error: 'A store with this key already exists' })
+  invalidateStoreCache()
+
+  log('info', 'admin.stores.created', { requestId, storeKey: store.key })
+  return res.status(201).json({ store })
+}))
+
+router.get('/:key', handle('get', async (req, res) => {
+  const params = keyParamsSchema.safeParse(req.params)
+  if (!params.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const store = await getStoreByKey(params.data.key)
+  if (!store) return res.status(404).json({ error: 'Store not found' })
+  return res.json({ store })
+}))
+
+router.patch('/:key', handle('update', async (req, res, requestId) => {
+  const params = keyParamsSchema.safeParse(req.params)
+  const parsed = updateSchema.safeParse(req.body)
+  if (!params.success || !parsed.success) {
+    return res.status(400).json({ error: 'Invalid request', issues: parsed.success ? undefined : parsed.error.issues })
+  }
+
+  const existing = await getStoreByKey(params.data.key)
+  if (!existing) return res.status(404).json({ error: 'Store not found' })
+
+  const store = await updateStore(existing.id, parsed.data)
+  if (!store) return res.status(404).json({ error: 'Store not found' })
+  invalidateStoreCache()
+
+  log('info', 'admin.stores.updated', { requestId, storeKey: store.key, fields: Object.keys(parsed.data) })
+  return res.json({ store })
+}))
+
+export default router
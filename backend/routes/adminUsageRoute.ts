@@ -0,0 +1,51 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { getRequestStore } from '../middleware/storeMiddleware.js'
+import { getUsageReport } from '../repos/llmCallRepo.js'
+import { createHandle } from './handle.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_RANGE_DAYS = 30
+const MAX_RANGE_DAYS = 366
+
+/**
+ * LLM usage admin router, mounted under /api/v1/admin/usage behind
+ * requireAdmin and selectStore.
+ *
+ * Every reply and conversation summary records its tokens, latency and
+ * estimated cost in llm_calls; this aggregates them for the selected store's
+ * conversations.
+ * - GET /   ?groupBy=day|model|conversation&from=&to=&limit=
+ *           totals for the range plus one row per group; the range defaults
+ *           to the last 30 days and days are UTC
+ */
+const router = Router()
+
+const usageQuerySchema = z
+  .object({
+    groupBy: z.enum(['day', 'model', 'conversation']).default('day'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100)
+  })
+  .transform((v) => {
+    const to = v.to ?? new Date()
+    const from = v.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS)
+    return { ...v, from, to }
+  })
+  .refine((v) => v.from < v.to && v.to.getTime() - v.from.getTime() <= MAX_RANGE_DAYS * DAY_MS, {
+    message: `from must be before to, at most ${MAX_RANGE_DAYS} days apart`
+  })
+
+const handle = createHandle('admin.usage')
+
+router.get('/', handle('report', async (req, res) => {
+  const parsed = usageQuerySchema.safeParse(req.query)
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const { groupBy, from, to, limit } = parsed.data
+  const { totals, rows } = await getUsageReport({ storeId: getRequestStore(res).id, groupBy, from, to, limit })
+  return res.json({ groupBy, from: from.toISOString(), to: to.toISOString(), totals, rows })
+}))
+
+export default router
@@ -1,135 +1,414 @@
 import { Router, type Request, type Response } from 'express'
 import { z } from 'zod'
 import { env } from '../env.js'
-import { log } from '../logger.js'
+import { errorMeta, log } from '../logger.js'
 import {
+  createVisitorConversation,
   ensureConversation,
+  findClientMessage,
+  findReplyTo,
+  getConversation,
+  getNewerMessages,
   getOlderMessages,
   getRecentMessages,
-  insertMessage
+  insertMessage,
+  listConversations,
+  listVisitorConversations,
+  type ConversationStatus,
+  type MessageRow
 } from '../repos/chatRepo.js'
-import { generateSupportReply } from '../services/llm/supportAgent.js'
-import { rateLimitMessage, rateLimitHistory } from '../middleware/rateLimitMiddleware.js'
-
-function errorMeta(err: unknown) {
-  if (err instanceof Error) {
-    return { name: err.name, message: err.message, stack: err.stack }
-  }
-  return { error: String(err) }
-}
+import {
+  FALLBACK_REPLY,
+  generateSupportReply,
+  streamSupportReply,
+  type ToolInvocation
+} from '../services/llm/supportAgent.js'
+import { insertToolCalls } from '../repos/toolCallRepo.js'
+import { insertLlmCall } from '../repos/llmCallRepo.js'
+import type { LlmUsage } from '../services/llm/usage.js'
+import { budgetFallbackReply, findExhaustedBudget, type ExhaustedBudget } from '../services/llm/spendLimits.js'
+import { excludeSummarized, loadConversationMemory, refreshSummaryIfNeeded } from '../services/llm/conversationMemory.js'
+import { subscribeChatEvents, toPublicMessage } from '../services/chatEvents.js'
+import { HANDOFF_ACK, escalateToHuman, isHumanOwned, resolveTurnOwner } from '../services/handoff.js'
+import { maskPii } from '../services/redaction.js'
+import type { StoredResponse } from '../services/idempotency/index.js'
+import { storeModel } from '../services/stores.js'
+import type { StoreRow } from '../repos/storeRepo.js'
+import { rateLimit } from '../middleware/rateLimitMiddleware.js'
+import { requireOperator, requireOperatorSse } from '../middleware/adminAuthMiddleware.js'
+import { canAccessConversation, getSession, requireSession, requireSessionSse } from '../middleware/sessionMiddleware.js'
+import { getRequestStore, selectStore } from '../middleware/storeMiddleware.js'
+import { parseCursor } from './cursor.js'
+import { claimTurn, sendTurnResponse, type TurnHold } from './turnClaim.js'
 
 /**
  * Chat API router
  *
- * Exposes two endpoints under /api/v1/chat:
+ * Customer endpoints require a session token (see routes/sessionRoute.ts); the
+ * conversation defaults to the token's own session, and the store is the one
+ * the token was issued for. Operator endpoints name the store with
+ * `X-Store-Key` (or `?store=` for EventSource). Conversations of other stores
+ * are never visible.
+ *
+ * Exposes endpoints under /api/v1/chat:
  * - POST /message: accept a user message, persist it, call the LLM, persist the AI reply, return the text.
+ * - POST /message/stream: same as /message, but streams the reply over Server-Sent Events.
+ * - GET /subscribe: Server-Sent Events feed of new messages and status changes for a session.
  * - GET /history: fetch conversation history with simple cursor-based pagination.
+ * - GET /visitor/conversations, POST /visitor/conversations: the customer's own
+ *   conversations, and starting a new one.
+ * - GET /conversations, GET /conversations/:id/messages, GET /conversations/:id/subscribe:
+ *   operator inbox listing/search, transcripts and live feed (require the operator token).
  */
 const router = Router()
 
-// Shape of POST /message body. sessionId is required (uuid string).
+// Shape of POST /message body. sessionId defaults to the token's session.
+// clientMessageId is the id of the client's optimistic copy: stored with the
+// message so a retried send isn't stored twice, and echoed to live subscribers.
 const postMessageSchema = z.object({
   message: z.string().trim().min(1),
-  sessionId: z.string().uuid()
+  sessionId: z.string().uuid().optional(),
+  clientMessageId: z.string().uuid().optional()
 })
 
-
 /**
- * POST /message
- * Validates input, creates the conversation if needed, saves the user message,
- * fetches recent history, asks the LLM for a reply, saves the AI message, and
- * returns the text back to the client.
+ * Validate and normalize a POST /message-style body. Sends the 4xx response
+ * itself and returns null when the input is rejected.
  */
-router.post('/message', rateLimitMessage, async (req: Request, res: Response) => {
+function parseMessageBody(req: Request, res: Response, logPrefix: string) {
   const requestId = (res.locals.requestId as string | undefined) ?? undefined
-  const startedAt = Date.now()
 
   const parsed = postMessageSchema.safeParse(req.body)
   if (!parsed.success) {
-    log('warn', 'chat.message.validation_failed', {
+    log('warn', `${logPrefix}.validation_failed`, {
       requestId,
       issues: parsed.error.issues
     })
-    return res.status(400).json({ error: 'Invalid request' })
+    res.status(400).json({ error: 'Invalid request' })
+    return null
   }
 
-  const { message, sessionId } = parsed.data
+  const { message, clientMessageId } = parsed.data
+  const sessionId = parsed.data.sessionId ?? getSession(res).sessionId
   const cleanMessage = message.replace(/[\u200B-\u200F\uFEFF]/g, '').trim()
-  if(cleanMessage.length === 0) {
-    return res.status(400).json({ error: 'Message is empty' })
+  if (cleanMessage.length === 0) {
+    res.status(400).json({ error: 'Message is empty' })
+    return null
   }
 
   if (cleanMessage.length > env.MAX_MESSAGE_CHARS) {
-    log('warn', 'chat.message.too_long', {
+    log('warn', `${logPrefix}.too_long`, {
       requestId,
       sessionId,
       messageLength: cleanMessage.length,
       maxMessageChars: env.MAX_MESSAGE_CHARS
     })
-    return res.status(413).json({ error: 'Message is too long' })
+    res.status(413).json({ error: 'Message is too long' })
+    return null
   }
 
-  try {
-    log('info', 'chat.message.start', {
+  return { sessionId, cleanMessage, clientMessageId }
+}
+
+/**
+ * Make sure the caller's session token covers the conversation. Sends a 403
+ * and returns false when it doesn't.
+ */
+async function authorizeConversation(res: Response, conversationId: string) {
+  const session = getSession(res)
+  if (await canAccessConversation(session, conversationId)) return true
+
+  log('warn', 'chat.session.forbidden', {
+    requestId: (res.locals.requestId as string | undefined) ?? undefined,
+    sessionId: session.sessionId,
+    conversationId
+  })
+  res.status(403).json({ error: 'This conversation belongs to another session' })
+  return false
+}
+
+type TurnStart = {
+  status: ConversationStatus
+  // Recent messages not yet covered by the conversation's rolling summary
+  recentMessages: MessageRow[]
+  summary: string | null
+  handled: { reply: string | null; messageId: string | null } | null
+  // Set when a daily token budget ran out; handled then carries the fallback reply
+  budget: ExhaustedBudget | null
+}
+
+/**
+ * First half of a chat turn, shared by POST /message and /message/stream:
+ * ensure the conversation, work out who owns it, load recent history (and the
+ * summary of anything older) and store the user's message.
+ *
+ * When the LLM must not answer (an operator owns the conversation, this
+ * message asked for a human, or a daily token budget is used up), `handled`
+ * carries the reply to send back instead: the handoff acknowledgement, the
+ * budget fallback, or null if an operator will answer.
+ *
+ * A retried send (a clientMessageId already stored) isn't stored again. If it
+ * was answered, `handled` carries that answer; otherwise the turn runs again
+ * with the stored message.
+ */
+async function beginTurn(args: {
+  store: StoreRow
+  sessionId: string
+  visitorId: string
+  clientIp: string | null
+  cleanMessage: string
+  clientMessageId?: string
+  requestId?: string
+  logPrefix: string
+}): Promise<TurnStart> {
+  const { store, sessionId, cleanMessage, clientMessageId, requestId, logPrefix } = args
+
+  const tEnsure = Date.now()
+  await ensureConversation(store.id, sessionId)
+  const resent = clientMessageId ? await findClientMessage(store.id, sessionId, clientMessageId) : null
+  if (resent) {
+    const reply = await findReplyTo(store.id, resent)
+    log('info', `${logPrefix}.resent`, { requestId, sessionId, answered: Boolean(reply) })
+    if (reply) {
+      const conversation = await getConversation(store.id, sessionId)
+      return {
+        status: conversation?.status ?? 'ai',
+        recentMessages: [],
+        summary: null,
+        handled: { reply: reply.text, messageId: reply.id },
+        budget: null
+      }
+    }
+  }
+  const owner = await resolveTurnOwner(store.id, sessionId, cleanMessage)
+  log('info', `${logPrefix}.ensure_conversation.ok`, {
+    requestId,
+    sessionId,
+    status: owner.status,
+    escalatedNow: owner.escalatedNow,
+    durationMs: Date.now() - tEnsure
+  })
+
+  const tRecent = Date.now()
+  const memory = await loadConversationMemory(sessionId)
+  const recentMessages = excludeSummarized(
+    await getRecentMessages(store.id, sessionId, env.CHAT_PAGE_SIZE),
+    memory.through
+  ).filter((m) => m.id !== resent?.id)
+  const summary = memory.summary
+  log('info', `${logPrefix}.get_recent.ok`, {
+    requestId,
+    sessionId,
+    limit: env.CHAT_PAGE_SIZE,
+    returned: recentMessages.length,
+    summary: summary ? 'present' : null,
+    durationMs: Date.now() - tRecent
+  })
+
+  if (!resent) {
+    const tInsertUser = Date.now()
+    const { duplicate } = await insertMessage({
+      storeId: store.id,
+      conversationId: sessionId,
+      sender: 'user',
+      text: cleanMessage,
+      clientMessageId
+    })
+    log('info', `${logPrefix}.insert_user.ok`, {
       requestId,
       sessionId,
-      messageLength: cleanMessage.length,
-      messagePreview: cleanMessage.slice(0, 120)
+      duplicate,
+      durationMs: Date.now() - tInsertUser
     })
+  }
 
-    const tEnsure = Date.now()
-    await ensureConversation(sessionId)
-    log('info', 'chat.message.ensure_conversation.ok', {
+  if (owner.escalatedNow) {
+    const { id } = await insertMessage({ storeId: store.id, conversationId: sessionId, sender: 'ai', text: HANDOFF_ACK })
+    log('info', `${logPrefix}.handoff`, { requestId, sessionId, reason: 'user_request' })
+    return { status: owner.status, recentMessages, summary, handled: { reply: HANDOFF_ACK, messageId: id }, budget: null }
+  }
+
+  if (isHumanOwned(owner.status)) {
+    log('info', `${logPrefix}.human_owned`, { requestId, sessionId, status: owner.status })
+    return { status: owner.status, recentMessages, summary, handled: { reply: null, messageId: null }, budget: null }
+  }
+
+  const budget = await findExhaustedBudget({ storeId: store.id, visitorId: args.visitorId, clientIp: args.clientIp })
+  if (budget) {
+    const fallback = await budgetFallbackReply(store.id, cleanMessage)
+    const { id } = await insertMessage({
+      storeId: store.id,
+      conversationId: sessionId,
+      sender: 'ai',
+      text: fallback.text,
+      kbChunkIds: fallback.sourceChunkIds
+    })
+    log('warn', `${logPrefix}.budget_exhausted`, {
       requestId,
       sessionId,
-      durationMs: Date.now() - tEnsure
+      scope: budget.scope,
+      used: budget.used,
+      limit: budget.limit,
+      resetAt: budget.resetAt.toISOString()
     })
+    return { status: owner.status, recentMessages, summary, handled: { reply: fallback.text, messageId: id }, budget }
+  }
+
+  return { status: owner.status, recentMessages, summary, handled: null, budget: null }
+}
+
+/**
+ * 429 for a turn refused by a daily token budget. The canned fallback reply
+ * was already stored, so it's sent along for the client to show; resetAt (and
+ * Retry-After) say when the budget starts over.
+ */
+async function sendBudgetExhausted(
+  res: Response,
+  hold: TurnHold,
+  sessionId: string,
+  turn: TurnStart,
+  budget: ExhaustedBudget
+) {
+  const { resetAt } = budget
+  res.setHeader('Retry-After', Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000)))
+  return await sendTurnResponse(res, hold, 429, {
+    error: "We've reached today's chat limit.",
+    reply: turn.handled?.reply ?? null,
+    messageId: turn.handled?.messageId ?? null,
+    sessionId,
+    status: turn.status,
+    resetAt: resetAt.toISOString()
+  })
+}
+
+// Map DB rows to channel-agnostic chat history. Operator replies count as the
+// assistant's side of the conversation.
+function toHistory(rows: MessageRow[]) {
+  return rows.map((m) => ({ role: m.sender === 'user' ? ('user' as const) : ('ai' as const), content: m.text }))
+}
+
+/**
+ * POST /message
+ * Validates input, creates the conversation if needed, saves the user message,
+ * fetches recent history, asks the LLM for a reply, saves the AI message, and
+ * returns the text back to the client.
+ *
+ * While a human owns the conversation the LLM is skipped and reply is null;
+ * status tells the client who is answering.
+ *
+ * With an Idempotency-Key header (or a clientMessageId) a repeated request
+ * gets the original response instead of a second turn; see claimTurn.
+ */
+router.post('/message', requireSession, rateLimit('message'), async (req: Request, res: Response) => {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const startedAt = Date.now()
 
+  const body = parseMessageBody(req, res, 'chat.message')
+  if (!body) return
+  const { sessionId, cleanMessage, clientMessageId } = body
+  const store = getRequestStore(res)
 
-    const tRecent = Date.now()
-    const recentMessages = await getRecentMessages(sessionId, env.CHAT_PAGE_SIZE)
-    log('info', 'chat.message.get_recent.ok', {
+  let hold: TurnHold | null = null
+  try {
+    log('info', 'chat.message.start', {
       requestId,
       sessionId,
-      limit: env.CHAT_PAGE_SIZE,
-      returned: recentMessages.length,
-      durationMs: Date.now() - tRecent
+      messageLength: cleanMessage.length,
+      messagePreview: maskPii(cleanMessage).slice(0, 120)
     })
-    
-    const tInsertUser = Date.now()
-    await insertMessage({ conversationId: sessionId, sender: 'user', text: cleanMessage })
-    log('info', 'chat.message.insert_user.ok', {
-      requestId,
+
+    if (!(await authorizeConversation(res, sessionId))) return
+
+    // The turn lock and the Postgres store's idempotency keys live on the conversation, so it has to exist first
+    await ensureConversation(store.id, sessionId)
+    hold = await claimTurn(req, res, {
+      storeId: store.id,
       sessionId,
-      durationMs: Date.now() - tInsertUser
+      cleanMessage,
+      clientMessageId,
+      logPrefix: 'chat.message',
+      replay: (response) => res.status(response.status).json(response.body)
+    })
+    if (!hold) return
+
+    const turn = await beginTurn({
+      store,
+      sessionId,
+      visitorId: getSession(res).sessionId,
+      clientIp: req.ip ?? null,
+      cleanMessage,
+      clientMessageId,
+      requestId,
+      logPrefix: 'chat.message'
     })
+    if (turn.budget) return await sendBudgetExhausted(res, hold, sessionId, turn, turn.budget)
+    if (turn.handled) {
+      log('info', 'chat.message.finish', {
+        requestId,
+        sessionId,
+        status: turn.status,
+        durationMs: Date.now() - startedAt
+      })
+      return await sendTurnResponse(res, hold, 200, { ...turn.handled, sessionId, status: turn.status })
+    }
 
     try {
       const tLlm = Date.now()
-      // Map DB rows to channel-agnostic chat history. 
-      const history = recentMessages.map((m) => ({ role: m.sender as 'user' | 'ai', content: m.text }))
-      const replyText = await generateSupportReply(history, cleanMessage)
+      const { text: replyText, sourceChunkIds, handoff, toolCalls, historyTurns, usage } = await generateSupportReply(
+        toHistory(turn.recentMessages),
+        cleanMessage,
+        { store, conversationId: sessionId, summary: turn.summary }
+      )
       log('info', 'chat.message.llm.ok', {
         requestId,
         sessionId,
         durationMs: Date.now() - tLlm,
-        replyLength: replyText.length
+        replyLength: replyText.length,
+        sourceChunks: sourceChunkIds.length,
+        toolCalls: toolCalls.length,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        handoff
       })
 
       const tInsertAi = Date.now()
-      await insertMessage({ conversationId: sessionId, sender: 'ai', text: replyText })
+      const { id: messageId } = await insertMessage({
+        storeId: store.id,
+        conversationId: sessionId,
+        sender: 'ai',
+        text: replyText,
+        kbChunkIds: sourceChunkIds
+      })
+      await insertToolCalls({ messageId, conversationId: sessionId, calls: toolCalls })
+      await insertLlmCall({ conversationId: sessionId, messageId, clientIp: req.ip ?? null, purpose: 'reply', usage })
       log('info', 'chat.message.insert_ai.ok', {
         requestId,
         sessionId,
         durationMs: Date.now() - tInsertAi
       })
 
+      // Next turn shows the kept history plus this exchange verbatim; fold anything older
+      // into the summary without holding up the response
+      void refreshSummaryIfNeeded({
+        storeId: store.id,
+        model: storeModel(store),
+        conversationId: sessionId,
+        keptMessages: historyTurns + 2,
+        requestId
+      })
+
+      let status: ConversationStatus = turn.status
+      if (handoff && (await escalateToHuman(store.id, sessionId, 'model'))) {
+        status = 'pending_human'
+        log('info', 'chat.message.handoff', { requestId, sessionId, reason: 'model' })
+      }
+
       log('info', 'chat.message.finish', {
         requestId,
         sessionId,
         durationMs: Date.now() - startedAt
       })
-      return res.json({ reply: replyText, sessionId })
+      return await sendTurnResponse(res, hold, 200, { reply: replyText, messageId, sessionId, status })
     } catch (err) {
       log('error', 'chat.message.llm_failed', {
         requestId,
@@ -137,6 +416,7 @@ router.post('/message', rateLimitMessage, async (req: Request, res: Response) =>
         durationMs: Date.now() - startedAt,
         ...errorMeta(err)
       })
+      await hold.finish(null)
       return res.status(502).json({
         error: "I'm sorry - I'm having trouble responding right now. Please try again in a moment."
       })
@@ -148,53 +428,383 @@ router.post('/message', rateLimitMessage, async (req: Request, res: Response) =>
       durationMs: Date.now() - startedAt,
       ...errorMeta(err)
     })
+    await hold?.finish(null)
     return res.status(500).json({ error: 'Something went wrong. Please try again.' })
   }
 })
 
+/**
+ * Write a single Server-Sent Event frame. Data is always JSON-encoded so
+ * multi-line text survives the line-oriented SSE format. id, when given,
+ * becomes the Last-Event-ID a reconnecting EventSource sends back.
+ */
+function writeSseEvent(res: Response, event: string, data: unknown, id?: string) {
+  res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+function startSse(res: Response) {
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  // Disable proxy buffering (nginx) so events reach the client immediately.
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+}
 
 /**
- * Parse a cursor string of the form "<ISO date>|<uuid>" (or just date) into a structured object.
- * We accept a few date formats and normalize to ISO8601 for safety.
+ * POST /message/stream
+ * Same flow as POST /message, but the AI reply is streamed back as Server-Sent
+ * Events while the model generates it:
+ * - event "delta": { text } for each chunk of the reply
+ * - event "done": { reply, sessionId, messageId, status } once the reply is persisted
+ * - event "error": { error } if the LLM fails mid-stream
+ *
+ * When a human owns the conversation no deltas are sent and "done" carries
+ * reply: null (or the handoff acknowledgement if this message escalated).
+ *
+ * Repeats are handled as for POST /message; a repeat of a finished turn gets
+ * just the "done" event.
+ *
+ * The AI message is only persisted when the stream completes. If the client
+ * disconnects (or the model fails) after some text was produced, the partial
+ * reply is stored with interrupted = true.
  */
-function parseCursor(cursor: string | undefined) {
-  if (!cursor) return null
-
-  const parts = cursor.split('|')
-
-  // Helper: normalize various date string formats to ISO8601 if possible
-  const toIso = (raw: string) => {
-    const trimmed = raw.trim()
-    // Accept already-ISO strings
-    const isoCheck = z.string().datetime().safeParse(trimmed)
-    if (isoCheck.success) return trimmed
-    // Try broad date parsing (e.g., "Sun Dec 28 2025 23:22:34 GMT+0530 (India Standard Time)")
-    const ms = Date.parse(trimmed)
-    if (!Number.isNaN(ms)) return new Date(ms).toISOString()
-    return null
+router.post('/message/stream', requireSession, rateLimit('message'), async (req: Request, res: Response) => {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const startedAt = Date.now()
+
+  const body = parseMessageBody(req, res, 'chat.stream')
+  if (!body) return
+  const { sessionId, cleanMessage, clientMessageId } = body
+  const store = getRequestStore(res)
+
+  let turn: TurnStart
+  let hold: TurnHold | null = null
+  try {
+    log('info', 'chat.stream.start', {
+      requestId,
+      sessionId,
+      messageLength: cleanMessage.length,
+      messagePreview: maskPii(cleanMessage).slice(0, 120)
+    })
+
+    if (!(await authorizeConversation(res, sessionId))) return
+
+    // The turn lock and the Postgres store's idempotency keys live on the conversation, so it has to exist first
+    await ensureConversation(store.id, sessionId)
+    hold = await claimTurn(req, res, {
+      storeId: store.id,
+      sessionId,
+      cleanMessage,
+      clientMessageId,
+      logPrefix: 'chat.stream',
+      // A finished turn is replayed as a stream of just its "done" event
+      replay: (response) => {
+        if (response.status !== 200) return res.status(response.status).json(response.body)
+        startSse(res)
+        writeSseEvent(res, 'done', response.body)
+        res.end()
+      }
+    })
+    if (!hold) return
+
+    turn = await beginTurn({
+      store,
+      sessionId,
+      visitorId: getSession(res).sessionId,
+      clientIp: req.ip ?? null,
+      cleanMessage,
+      clientMessageId,
+      requestId,
+      logPrefix: 'chat.stream'
+    })
+  } catch (err) {
+    log('error', 'chat.stream.failed', {
+      requestId,
+      sessionId,
+      durationMs: Date.now() - startedAt,
+      ...errorMeta(err)
+    })
+    await hold?.finish(null)
+    return res.status(500).json({ error: 'Something went wrong. Please try again.' })
+  }
+
+  // Plain JSON like the other pre-stream refusals, so the client gets the 429 status
+  if (turn.budget) return await sendBudgetExhausted(res, hold, sessionId, turn, turn.budget)
+
+  startSse(res)
+
+  if (turn.handled) {
+    const done = { ...turn.handled, sessionId, status: turn.status }
+    await hold.finish({ status: 200, body: done })
+    writeSseEvent(res, 'done', done)
+    res.end()
+    return
+  }
+
+  // 'close' on the response fires for both normal completion and client
+  // disconnects; only the latter leaves the response unfinished.
+  const abort = new AbortController()
+  let clientGone = false
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      clientGone = true
+      abort.abort()
+    }
+  })
+
+  let replyText = ''
+  let sourceChunkIds: string[] = []
+  let toolCalls: () => ToolInvocation[] = () => []
+  let usage: () => LlmUsage | null = () => null
+  let historyTurns = 0
+  let handoff = false
+  const persistInterrupted = async () => {
+    const partial = replyText.trim()
+    if (!partial) return
+    try {
+      const { id: messageId } = await insertMessage({
+        storeId: store.id,
+        conversationId: sessionId,
+        sender: 'ai',
+        text: partial,
+        interrupted: true,
+        kbChunkIds: sourceChunkIds
+      })
+      await insertToolCalls({ messageId, conversationId: sessionId, calls: toolCalls() })
+      const spent = usage()
+      if (spent) await insertLlmCall({ conversationId: sessionId, messageId, clientIp: req.ip ?? null, purpose: 'reply', usage: spent })
+      log('warn', 'chat.stream.interrupted', {
+        requestId,
+        sessionId,
+        clientGone,
+        partialLength: partial.length,
+        durationMs: Date.now() - startedAt
+      })
+    } catch (err) {
+      log('error', 'chat.stream.insert_partial_failed', {
+        requestId,
+        sessionId,
+        ...errorMeta(err)
+      })
+    }
+  }
+
+  const tLlm = Date.now()
+  try {
+    const reply = await streamSupportReply(toHistory(turn.recentMessages), cleanMessage, {
+      store,
+      signal: abort.signal,
+      conversationId: sessionId,
+      summary: turn.summary
+    })
+    sourceChunkIds = reply.sourceChunkIds
+    historyTurns = reply.historyTurns
+    toolCalls = reply.toolCalls
+    usage = reply.usage
+    for await (const delta of reply.deltas) {
+      if (clientGone) break
+      replyText += delta
+      writeSseEvent(res, 'delta', { text: delta })
+    }
+    handoff = reply.handoffRequested()
+  } catch (err) {
+    if (!clientGone) {
+      log('error', 'chat.stream.llm_failed', {
+        requestId,
+        sessionId,
+        durationMs: Date.now() - startedAt,
+        partialLength: replyText.length,
+        ...errorMeta(err)
+      })
+    }
+    await persistInterrupted()
+    await hold.finish(null)
+    if (!clientGone) {
+      writeSseEvent(res, 'error', {
+        error: "I'm sorry - I'm having trouble responding right now. Please try again in a moment."
+      })
+      res.end()
+    }
+    return
+  }
+
+  if (clientGone) {
+    await persistInterrupted()
+    await hold.finish(null)
+    return
+  }
+
+  try {
+    const finalText = replyText.trim() || FALLBACK_REPLY
+    const { id: messageId } = await insertMessage({
+      storeId: store.id,
+      conversationId: sessionId,
+      sender: 'ai',
+      text: finalText,
+      kbChunkIds: sourceChunkIds
+    })
+    await insertToolCalls({ messageId, conversationId: sessionId, calls: toolCalls() })
+    const spent = usage()
+    if (spent) await insertLlmCall({ conversationId: sessionId, messageId, clientIp: req.ip ?? null, purpose: 'reply', usage: spent })
+    void refreshSummaryIfNeeded({
+      storeId: store.id,
+      model: storeModel(store),
+      conversationId: sessionId,
+      keptMessages: historyTurns + 2,
+      requestId
+    })
+
+    let status: ConversationStatus = turn.status
+    if (handoff && (await escalateToHuman(store.id, sessionId, 'model'))) {
+      status = 'pending_human'
+      log('info', 'chat.stream.handoff', { requestId, sessionId, reason: 'model' })
+    }
+
+    log('info', 'chat.stream.finish', {
+      requestId,
+      sessionId,
+      llmDurationMs: Date.now() - tLlm,
+      replyLength: finalText.length,
+      toolCalls: toolCalls().length,
+      promptTokens: spent?.promptTokens,
+      completionTokens: spent?.completionTokens,
+      durationMs: Date.now() - startedAt
+    })
+    const done = { reply: finalText, sessionId, messageId, status }
+    await hold.finish({ status: 200, body: done })
+    writeSseEvent(res, 'done', done)
+  } catch (err) {
+    log('error', 'chat.stream.insert_ai_failed', {
+      requestId,
+      sessionId,
+      durationMs: Date.now() - startedAt,
+      ...errorMeta(err)
+    })
+    await hold.finish(null)
+    writeSseEvent(res, 'error', { error: 'Something went wrong. Please try again.' })
   }
+  res.end()
+})
+
+const subscribeQuerySchema = z.object({
+  sessionId: z.string().uuid().optional(),
+  // Same "<ISO date>|<uuid>" form as event ids; an alternative to Last-Event-ID
+  since: z.string().optional()
+})
 
-  if (parts.length === 1) {
-    const createdAtIso = toIso(parts[0]!)
-    if (!createdAtIso) return null
-    return { createdAt: createdAtIso, id: undefined as string | undefined }
+// Comment frames keep idle connections from being closed by proxies.
+const SUBSCRIBE_HEARTBEAT_MS = 25_000
+const SUBSCRIBE_REPLAY_LIMIT = 100
+
+/**
+ * GET /subscribe
+ * Server-Sent Events feed of everything that happens in one conversation,
+ * whoever caused it (another tab, an operator, a background job):
+ * - event "message": a stored message as a PublicMessage (with client_message_id if the sender supplied one)
+ * - event "status": { status, assigned_operator } when ownership changes
+ *
+ * Message events carry an id; when an EventSource reconnects it sends that id
+ * back as Last-Event-ID and the messages it missed are replayed first.
+ */
+router.get('/subscribe', requireSessionSse, rateLimit('history'), async (req: Request, res: Response) => {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+
+  const parsed = subscribeQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    log('warn', 'chat.subscribe.validation_failed', { requestId, issues: parsed.error.issues })
+    return res.status(400).json({ error: 'Invalid request' })
+  }
+  const sessionId = parsed.data.sessionId ?? getSession(res).sessionId
+  try {
+    if (!(await authorizeConversation(res, sessionId))) return
+  } catch (err) {
+    log('error', 'chat.subscribe.failed', { requestId, sessionId, ...errorMeta(err) })
+    return res.status(500).json({ error: 'Something went wrong. Please try again.' })
   }
 
-  if (parts.length === 2) {
-    const createdAtIso = toIso(parts[0]!)
-    const id = parts[1]!.trim()
-    if (!createdAtIso) return null
-    const ok = z.object({ createdAt: z.string().datetime(), id: z.string().uuid() }).safeParse({ createdAt: createdAtIso, id })
-    if (!ok.success) return null
-    return { createdAt: createdAtIso, id }
+  await streamConversationEvents(req, res, sessionId, parsed.data.since)
+})
+
+/**
+ * GET /conversations/:id/subscribe (operators only)
+ * The same feed as /subscribe for any of the store's conversations, for the
+ * operator console.
+ */
+router.get('/conversations/:id/subscribe', requireOperatorSse, selectStore, rateLimit('history'), async (req: Request, res: Response) => {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const params = z.object({ id: z.string().uuid() }).safeParse(req.params)
+  const parsed = subscribeQuerySchema.pick({ since: true }).safeParse(req.query)
+  if (!params.success || !parsed.success) return res.status(400).json({ error: 'Invalid request' })
+
+  try {
+    const conversation = await getConversation(getRequestStore(res).id, params.data.id)
+    if (!conversation) return res.status(404).json({ error: 'Conversation not found' })
+  } catch (err) {
+    log('error', 'chat.subscribe.failed', { requestId, sessionId: params.data.id, ...errorMeta(err) })
+    return res.status(500).json({ error: 'Something went wrong. Please try again.' })
   }
 
-  return null
+  await streamConversationEvents(req, res, params.data.id, parsed.data.since)
+})
+
+/**
+ * Open the SSE feed for one conversation: live events, plus a replay of what
+ * was missed after Last-Event-ID (or `since`).
+ */
+async function streamConversationEvents(req: Request, res: Response, sessionId: string, since: string | undefined) {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const lastEventId = req.header('last-event-id') ?? since
+  const replayFrom = parseCursor(lastEventId)
+
+  const eventId = (m: { created_at: string; id: string }) => `${new Date(m.created_at).toISOString()}|${m.id}`
+
+  startSse(res)
+
+  // Subscribe before replaying so nothing slips through the gap; the client
+  // de-duplicates by message id.
+  const unsubscribe = subscribeChatEvents(sessionId, (event) => {
+    if (event.type === 'message') {
+      writeSseEvent(res, 'message', toPublicMessage(event.message), eventId(event.message))
+    } else {
+      writeSseEvent(res, 'status', {
+        status: event.conversation.status,
+        assigned_operator: event.conversation.assigned_operator
+      })
+    }
+  })
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SUBSCRIBE_HEARTBEAT_MS)
+
+  res.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+    log('info', 'chat.subscribe.closed', { requestId, sessionId })
+  })
+
+  log('info', 'chat.subscribe.start', { requestId, sessionId, replay: replayFrom ? 'present' : null })
+
+  if (replayFrom?.id) {
+    try {
+      const missed = await getNewerMessages({
+        storeId: getRequestStore(res).id,
+        conversationId: sessionId,
+        afterCreatedAt: replayFrom.createdAt,
+        afterId: replayFrom.id,
+        limit: SUBSCRIBE_REPLAY_LIMIT
+      })
+      for (const m of missed) {
+        writeSseEvent(res, 'message', toPublicMessage(m), eventId(m))
+      }
+    } catch (err) {
+      log('error', 'chat.subscribe.replay_failed', { requestId, sessionId, ...errorMeta(err) })
+    }
+  }
 }
 
 // Query validation for GET /history
 const historyQuerySchema = z.object({
-  sessionId: z.string().uuid(),
+  sessionId: z.string().uuid().optional(),
   cursor: z.string().optional(),
   limit: z.coerce.number().int().positive().max(100).optional()
 })
@@ -203,9 +813,10 @@ const historyQuerySchema = z.object({
  * GET /history
  * Returns a page of messages for a given sessionId. If a cursor is provided, we
  * fetch messages older than that (created_at,id). Messages are always returned
- * oldest->newest. nextCursor points to the oldest message in this page.
+ * oldest->newest, as PublicMessage. nextCursor points to the oldest message in this page, and
+ * status is the conversation's current owner (see ConversationStatus).
  */
-router.get('/history', rateLimitHistory, async (req: Request, res: Response) => {
+router.get('/history', requireSession, rateLimit('history'), async (req: Request, res: Response) => {
   const requestId = (res.locals.requestId as string | undefined) ?? undefined
   const startedAt = Date.now()
 
@@ -218,7 +829,8 @@ router.get('/history', rateLimitHistory, async (req: Request, res: Response) =>
     return res.status(400).json({ error: 'Invalid request' })
   }
 
-  const { sessionId, cursor, limit } = parsed.data
+  const { cursor, limit } = parsed.data
+  const sessionId = parsed.data.sessionId ?? getSession(res).sessionId
   const parsedCursor = parseCursor(cursor)
   if (cursor && !parsedCursor) {
     log('warn', 'chat.history.cursor_invalid', { requestId, sessionId, cursor })
@@ -234,15 +846,19 @@ router.get('/history', rateLimitHistory, async (req: Request, res: Response) =>
       pageSize
     })
 
+    if (!(await authorizeConversation(res, sessionId))) return
+
+    const storeId = getRequestStore(res).id
     const tFetch = Date.now()
     const messages = parsedCursor
       ? await getOlderMessages({
+          storeId,
           conversationId: sessionId,
           cursorCreatedAt: parsedCursor.createdAt,
           cursorId: parsedCursor.id,
           limit: pageSize
         })
-      : await getRecentMessages(sessionId, pageSize)
+      : await getRecentMessages(storeId, sessionId, pageSize)
 
     log('info', 'chat.history.fetch.ok', {
       requestId,
@@ -252,6 +868,7 @@ router.get('/history', rateLimitHistory, async (req: Request, res: Response) =>
     })
 
     const nextCursor = messages.length > 0 ? `${messages[0]!.created_at}|${messages[0]!.id}` : null
+    const conversation = await getConversation(storeId, sessionId)
 
     log('info', 'chat.history.finish', {
       requestId,
@@ -260,7 +877,7 @@ router.get('/history', rateLimitHistory, async (req: Request, res: Response) =>
       durationMs: Date.now() - startedAt
     })
 
-    return res.json({ messages, nextCursor })
+    return res.json({ messages: messages.map(toPublicMessage), nextCursor, status: conversation?.status ?? 'ai' })
   } catch (err) {
     log('error', 'chat.history.failed', {
       requestId,
@@ -272,4 +889,226 @@ router.get('/history', rateLimitHistory, async (req: Request, res: Response) =>
   }
 })
 
+const visitorConversationsQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(50).optional()
+})
+
+/**
+ * GET /visitor/conversations
+ * The caller's conversations (and those linked to their verified email),
+ * newest activity first, each with a title taken from its first message.
+ * nextCursor ("<ISO last_activity_at>|<uuid>") fetches the next, older page.
+ */
+router.get('/visitor/conversations', requireSession, rateLimit('history'), async (req: Request, res: Response) => {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const session = getSession(res)
+
+  const parsed = visitorConversationsQuerySchema.safeParse(req.query)
+  const parsedCursor = parsed.success ? parseCursor(parsed.data.cursor) : null
+  if (!parsed.success || (parsed.data.cursor && !parsedCursor?.id)) {
+    return res.status(400).json({ error: 'Invalid request' })
+  }
+  const pageSize = parsed.data.limit ?? 20
+
+  try {
+    const conversations = await listVisitorConversations({
+      storeId: session.storeId,
+      visitorId: session.sessionId,
+      customerId: session.customerId,
+      cursorLastActivityAt: parsedCursor?.createdAt,
+      cursorId: parsedCursor?.id,
+      limit: pageSize
+    })
+
+    const last = conversations[conversations.length - 1]
+    const nextCursor =
+      last && conversations.length === pageSize ? `${new Date(last.last_activity_at).toISOString()}|${last.id}` : null
+
+    log('info', 'chat.visitor_conversations.finish', { requestId, sessionId: session.sessionId, returned: conversations.length })
+    return res.json({ conversations, nextCursor })
+  } catch (err) {
+    log('error', 'chat.visitor_conversations.failed', { requestId, sessionId: session.sessionId, ...errorMeta(err) })
+    return res.status(500).json({ error: 'Something went wrong. Please try again.' })
+  }
+})
+
+/**
+ * POST /visitor/conversations
+ * Start a new conversation for the caller, so a new question doesn't inherit
+ * an old thread's context. If their latest conversation is still empty, that
+ * one is returned instead of piling up blank threads.
+ */
+router.post('/visitor/conversations', requireSession, rateLimit('history'), async (req: Request, res: Response) => {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const session = getSession(res)
+
+  try {
+    const [latest] = await listVisitorConversations({
+      storeId: session.storeId,
+      visitorId: session.sessionId,
+      customerId: session.customerId,
+      limit: 1
+    })
+    if (latest && latest.message_count === 0) {
+      return res.json({ conversation: latest })
+    }
+
+    const created = await createVisitorConversation({
+      storeId: session.storeId,
+      visitorId: session.sessionId,
+      customerId: session.customerId
+    })
+    log('info', 'chat.visitor_conversations.created', { requestId, sessionId: session.sessionId, conversationId: created.id })
+    return res.status(201).json({
+      conversation: {
+        id: created.id,
+        status: created.status,
+        title: null,
+        message_count: 0,
+        last_activity_at: created.last_activity_at,
+        created_at: created.created_at
+      }
+    })
+  } catch (err) {
+    log('error', 'chat.visitor_conversations.create_failed', { requestId, sessionId: session.sessionId, ...errorMeta(err) })
+    return res.status(500).json({ error: 'Something went wrong. Please try again.' })
+  }
+})
+
+const conversationStatusSchema = z.enum(['ai', 'pending_human', 'human', 'closed'])
+
+// Query validation for GET /conversations. status is a comma-separated list.
+const listConversationsQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  status: z
+    .string()
+    .optional()
+    .transform((v) => (v ? v.split(',').map((s) => s.trim()).filter(Boolean) : []))
+    .pipe(z.array(conversationStatusSchema)),
+  operator: z.string().trim().min(1).max(100).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional()
+})
+
+/**
+ * GET /conversations (operators only)
+ * Inbox listing ordered by last activity, newest first, with optional search
+ * (message text or conversation id), status and operator filters.
+ * nextCursor ("<ISO last_activity_at>|<uuid>") fetches the next, older page.
+ */
+router.get('/conversations', requireOperator, selectStore, rateLimit('history'), async (req: Request, res: Response) => {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const startedAt = Date.now()
+
+  const parsed = listConversationsQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    log('warn', 'chat.conversations.validation_failed', { requestId, issues: parsed.error.issues })
+    return res.status(400).json({ error: 'Invalid request' })
+  }
+
+  const { q, status, operator, cursor, limit } = parsed.data
+  const parsedCursor = parseCursor(cursor)
+  if (cursor && !parsedCursor?.id) {
+    log('warn', 'chat.conversations.cursor_invalid', { requestId, cursor })
+    return res.status(400).json({ error: 'Invalid request' })
+  }
+  const pageSize = limit ?? 25
+
+  try {
+    const conversations = await listConversations({
+      storeId: getRequestStore(res).id,
+      search: q,
+      statuses: status,
+      operator,
+      cursorLastActivityAt: parsedCursor?.createdAt,
+      cursorId: parsedCursor?.id,
+      limit: pageSize
+    })
+
+    const last = conversations[conversations.length - 1]
+    const nextCursor =
+      last && conversations.length === pageSize ? `${new Date(last.last_activity_at).toISOString()}|${last.id}` : null
+
+    log('info', 'chat.conversations.finish', {
+      requestId,
+      search: q ? 'present' : null,
+      status,
+      returned: conversations.length,
+      durationMs: Date.now() - startedAt
+    })
+    return res.json({ conversations, nextCursor })
+  } catch (err) {
+    log('error', 'chat.conversations.failed', {
+      requestId,
+      durationMs: Date.now() - startedAt,
+      ...errorMeta(err)
+    })
+    return res.status(500).json({ error: 'Something went wrong. Please try again.' })
+  }
+})
+
+const transcriptQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional()
+})
+
+/**
+ * GET /conversations/:id/messages (operators only)
+ * Same paging contract as GET /history, plus the conversation's ownership
+ * state so the console can show claim/release controls.
+ */
+router.get('/conversations/:id/messages', requireOperator, selectStore, rateLimit('history'), async (req: Request, res: Response) => {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const startedAt = Date.now()
+
+  const params = z.object({ id: z.string().uuid() }).safeParse(req.params)
+  const parsed = transcriptQuerySchema.safeParse(req.query)
+  if (!params.success || !parsed.success) {
+    return res.status(400).json({ error: 'Invalid request' })
+  }
+
+  const conversationId = params.data.id
+  const parsedCursor = parseCursor(parsed.data.cursor)
+  if (parsed.data.cursor && !parsedCursor) {
+    return res.status(400).json({ error: 'Invalid request' })
+  }
+  const pageSize = parsed.data.limit ?? env.CHAT_PAGE_SIZE
+
+  try {
+    const storeId = getRequestStore(res).id
+    const conversation = await getConversation(storeId, conversationId)
+    if (!conversation) return res.status(404).json({ error: 'Conversation not found' })
+
+    const messages = parsedCursor
+      ? await getOlderMessages({
+          storeId,
+          conversationId,
+          cursorCreatedAt: parsedCursor.createdAt,
+          cursorId: parsedCursor.id,
+          limit: pageSize
+        })
+      : await getRecentMessages(storeId, conversationId, pageSize)
+
+    const first = messages[0]
+    const nextCursor = first ? `${new Date(first.created_at).toISOString()}|${first.id}` : null
+
+    log('info', 'chat.transcript.finish', {
+      requestId,
+      sessionId: conversationId,
+      fetched: messages.length,
+      durationMs: Date.now() - startedAt
+    })
+    return res.json({ conversation, messages: messages.map(toPublicMessage), nextCursor })
+  } catch (err) {
+    log('error', 'chat.transcript.failed', {
+      requestId,
+      sessionId: conversationId,
+      durationMs: Date.now() - startedAt,
+      ...errorMeta(err)
+    })
+    return res.status(500).json({ error: 'Something went wrong. Please try again.' })
+  }
+})
+
 export default router
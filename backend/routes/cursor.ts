@@ -0,0 +1,40 @@
+import { z } from 'zod'
+
+/**
+ * Parse a cursor string of the form "<ISO date>|<uuid>" (or just date) into a structured object.
+ * We accept a few date formats and normalize to ISO8601 for safety.
+ */
+export function parseCursor(cursor: string | undefined) {
+  if (!cursor) return null
+
+  const parts = cursor.split('|')
+
+  // Helper: normalize various date string formats to ISO8601 if possible
+  const toIso = (raw: string) => {
+    const trimmed = raw.trim()
+    // Accept already-ISO strings
+    const isoCheck = z.string().datetime().safeParse(trimmed)
+    if (isoCheck.success) return trimmed
+    // Try broad date parsing (e.g., "Sun Dec 28 2025 23:22:34 GMT+0530 (India Standard Time)")
+    const ms = Date.parse(trimmed)
+    if (!Number.isNaN(ms)) return new Date(ms).toISOString()
+    return null
+  }
+
+  if (parts.length === 1) {
+    const createdAtIso = toIso(parts[0]!)
+    if (!createdAtIso) return null
+    return { createdAt: createdAtIso, id: undefined as string | undefined }
+  }
+
+  if (parts.length === 2) {
+    const createdAtIso = toIso(parts[0]!)
+    const id = parts[1]!.trim()
+    if (!createdAtIso) return null
+    const ok = z.object({ createdAt: z.string().datetime(), id: z.string().uuid() }).safeParse({ createdAt: createdAtIso, id })
+    if (!ok.success) return null
+    return { createdAt: createdAtIso, id }
+  }
+
+  return null
+}
@@ -0,0 +1,23 @@
+import { type Request, type Response } from 'express'
+import { errorMeta, log } from '../logger.js'
+
+export type RouteHandler = (req: Request, res: Response, requestId: string | undefined) => Promise<unknown>
+
+/**
+ * Build a router's `handle(name, fn)`, which wraps a handler with uniform 500
+ * handling and logs failures as `<logPrefix>.<name>.failed`, so each route
+ * only deals with its own validation and conflict cases.
+ */
+export function createHandle(logPrefix: string) {
+  return (name: string, fn: RouteHandler) => {
+    return async (req: Request, res: Response) => {
+      const requestId = (res.locals.requestId as string | undefined) ?? undefined
+      try {
+        await fn(req, res, requestId)
+      } catch (err) {
+        log('error', `${logPrefix}.${name}.failed`, { requestId, ...errorMeta(err) })
+        if (!res.headersSent) res.status(500).json({ error: 'Something went wrong. Please try again.' })
+      }
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { Router, type Response } from 'express'
+import { z } from 'zod'
+import { env } from '../env.js'
+import { log } from '../logger.js'
+import { getConversation, insertMessage, listConversationsByStatus } from '../repos/chatRepo.js'
+import type { PublicMessage } from '../services/chatEvents.js'
+import { claimConversation, closeConversation, releaseConversation } from '../services/handoff.js'
+import { getRequestStore } from '../middleware/storeMiddleware.js'
+import { createHandle } from './handle.js'
+
+/**
+ * Operator router, mounted under /api/v1/operator behind requireOperator and
+ * selectStore: every route acts on the store named by `X-Store-Key`.
+ *
+ * Lets support staff take a conversation over from the AI:
+ * - GET  /conversations/queue        conversations waiting for (or held by) a human
+ * - POST /conversations/:id/claim    take ownership; the LLM stops answering
+ * - POST /conversations/:id/reply    send a message as the operator ('agent' sender)
+ * - POST /conversations/:id/release  hand the conversation back to the AI
+ * - POST /conversations/:id/close    mark it resolved
+ *
+ * The operator identifies themselves with `operator` in the request body.
+ */
+const router = Router()
+
+const idParamsSchema = z.object({ id: z.string().uuid() })
+
+const operatorSchema = z.object({
+  operator: z.string().trim().min(1).max(100)
+})
+
+const replySchema = operatorSchema.extend({
+  message: z.string().trim().min(1)
+})
+
+const handle = createHandle('operator')
+
+/**
+ * Explain why an ownership change was refused: 404 if the conversation doesn't
+ * exist, otherwise 409 with its current state.
+ */
+async function rejectTransition(res: Response, conversationId: string) {
+  const conversation = await getConversation(getRequestStore(res).id, conversationId)
+  if (!conversation) return res.status(404).json({ error: 'Conversation not found' })
+  return res.status(409).json({ error: 'Conversation is not available for this action', conversation })
+}
+
+router.get('/conversations/queue', handle('queue', async (_req, res) => {
+  const conversations = await listConversationsByStatus(getRequestStore(res).id, ['pending_human', 'human'], 100)
+  return res.json({ conversations })
+}))
+
+router.post('/conversations/:id/claim', handle('claim', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  const body = operatorSchema.safeParse(req.body)
+  if (!params.success || !body.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const conversation = await claimConversation(getRequestStore(res).id, params.data.id, body.data.operator)
+  if (!conversation) return await rejectTransition(res, params.data.id)
+
+  log('info', 'operator.claimed', { requestId, sessionId: params.data.id, operator: body.data.operator })
+  return res.json({ conversation })
+}))
+
+router.post('/conversations/:id/reply', handle('reply', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  const body = replySchema.safeParse(req.body)
+  if (!params.success || !body.success) return res.status(400).json({ error: 'Invalid request' })
+  if (body.data.message.length > env.MAX_MESSAGE_CHARS) return res.status(413).json({ error: 'Message is too long' })
+
+  // Only the operator who claimed the conversation may answer in it
+  const storeId = getRequestStore(res).id
+  const conversation = await getConversation(storeId, params.data.id)
+  if (!conversation) return res.status(404).json({ error: 'Conversation not found' })
+  if (conversation.status !== 'human' || conversation.assigned_operator !== body.data.operator) {
+    return res.status(409).json({ error: 'Claim the conversation before replying', conversation })
+  }
+
+  const { id, createdAt } = await insertMessage({
+    storeId,
+    conversationId: params.data.id,
+    sender: 'agent',
+    text: body.data.message
+  })
+
+  log('info', 'operator.replied', { requestId, sessionId: params.data.id, operator: body.data.operator, replyLength: body.data.message.length })
+  return res.status(201).json({
+    message: {
+      id,
+      role: 'agent',
+      text: body.data.message,
+      interrupted: false,
+      client_message_id: null,
+      created_at: createdAt.toISOString()
+    } satisfies PublicMessage
+  })
+}))
+
+router.post('/conversations/:id/release', handle('release', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  const body = operatorSchema.safeParse(req.body)
+  if (!params.success || !body.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const conversation = await releaseConversation(getRequestStore(res).id, params.data.id, body.data.operator)
+  if (!conversation) return await rejectTransition(res, params.data.id)
+
+  log('info', 'operator.released', { requestId, sessionId: params.data.id, operator: body.data.operator })
+  return res.json({ conversation })
+}))
+
+router.post('/conversations/:id/close', handle('close', async (req, res, requestId) => {
+  const params = idParamsSchema.safeParse(req.params)
+  const body = operatorSchema.safeParse(req.body)
+  if (!params.success || !body.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const conversation = await closeConversation(getRequestStore(res).id, params.data.id, body.data.operator)
+  if (!conversation) return await rejectTransition(res, params.data.id)
+
+  log('info', 'operator.closed', { requestId, sessionId: params.data.id, operator: body.data.operator })
+  return res.json({ conversation })
+}))
+
+export default router
@@ -0,0 +1,121 @@
+import { randomUUID } from 'node:crypto'
+import { Router } from 'express'
+import { z } from 'zod'
+import { log } from '../logger.js'
+import { bindSessionConversation } from '../repos/chatRepo.js'
+import { getCustomer } from '../repos/customerRepo.js'
+import type { StoreRow } from '../repos/storeRepo.js'
+import { startEmailVerification, verifyEmailCode } from '../services/customerIdentity.js'
+import { signSessionToken, verifySessionToken } from '../services/sessionToken.js'
+import { findStoreByKey, publicStoreConfig, storeAcceptsOrigin } from '../services/stores.js'
+import { enforceRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { getRequestStore } from '../middleware/storeMiddleware.js'
+import { getSession, readSessionToken, requireSession } from '../middleware/sessionMiddleware.js'
+import { createHandle } from './handle.js'
+
+/**
+ * Customer session router, mounted under /api/v1/chat/session.
+ *
+ * The chat API only trusts signed session tokens issued here, so a conversation
+ * can't be read by someone who merely knows its id. Each token belongs to one
+ * store; the widget names it with storeKey when it asks for a token.
+ * - POST /         issue a token for { storeKey } (or refresh the one in Authorization)
+ * - POST /identify email a verification code to { email }
+ * - POST /verify   check { email, code }; links the conversation to the customer and returns a new token
+ */
+const router = Router()
+
+const createSchema = z.object({
+  storeKey: z.string().trim().min(1).max(64).default('default'),
+  // A session id chosen by an older client, adopted if no token has claimed it yet
+  sessionId: z.string().uuid().optional()
+})
+
+const identifySchema = z.object({
+  email: z.string().trim().email().max(254)
+})
+
+const verifySchema = identifySchema.extend({
+  code: z.string().trim().regex(/^\d{6}$/)
+})
+
+const handle = createHandle('session')
+
+/** A fresh token plus what the widget shows: the verified email and the store's branding. */
+async function sessionResponse(store: StoreRow, sessionId: string, customerId: string | null) {
+  const { token, expiresAt } = signSessionToken({ sessionId, storeId: store.id, customerId })
+  const customer = customerId ? await getCustomer(customerId) : null
+  return {
+    token,
+    sessionId,
+    expiresAt: expiresAt.toISOString(),
+    customer: customer ? { email: customer.email } : null,
+    store: publicStoreConfig(store)
+  }
+}
+
+router.post('/', handle('create', async (req, res, requestId) => {
+  const parsed = createSchema.safeParse(req.body ?? {})
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request' })
+
+  const store = await findStoreByKey(parsed.data.storeKey)
+  if (!store) return res.status(404).json({ error: 'Unknown store' })
+  // The widget may only run on the store's own sites
+  const origin = req.header('origin')
+  if (!storeAcceptsOrigin(store, origin)) {
+    log('warn', 'session.origin_rejected', { requestId, storeKey: store.key, origin })
+    return res.status(403).json({ error: 'This site is not allowed to use this store' })
+  }
+  res.locals.store = store
+
+  // A still-valid token for the same store is simply re-issued with a fresh expiry
+  const current = verifySessionToken(readSessionToken(req))
+  if (current && current.storeId === store.id) {
+    return res.json(await sessionResponse(store, current.sessionId, current.customerId))
+  }
+
+  if (!(await enforceRateLimit('session_create', req, res))) return
+
+  const legacyId = parsed.data.sessionId
+  let sessionId: string = randomUUID()
+  let adopted = false
+  if (legacyId && (await bindSessionConversation(store.id, legacyId))) {
+    sessionId = legacyId
+    adopted = true
+  } else {
+    await bindSessionConversation(store.id, sessionId)
+  }
+
+  log('info', 'session.created', { requestId, sessionId, storeKey: store.key, adopted })
+  return res.status(201).json(await sessionResponse(store, sessionId, null))
+}))
+
+router.post('/identify', requireSession, handle('identify', async (req, res, requestId) => {
+  const parsed = identifySchema.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ error: 'Please enter a valid email address' })
+
+  if (!(await enforceRateLimit('session_identify', req, res))) return
+
+  const session = getSession(res)
+
+  await startEmailVerification(session.sessionId, parsed.data.email)
+  log('info', 'session.identify.code_sent', { requestId, sessionId: session.sessionId })
+  return res.status(202).json({ ok: true })
+}))
+
+router.post('/verify', requireSession, handle('verify', async (req, res, requestId) => {
+  const parsed = verifySchema.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ error: 'Enter the 6-digit code from the email' })
+
+  const session = getSession(res)
+  const result = await verifyEmailCode(session.sessionId, parsed.data.email, parsed.data.code)
+  if (!result.ok) {
+    log('warn', 'session.verify.rejected', { requestId, sessionId: session.sessionId, reason: result.reason })
+    return res.status(400).json({ error: result.reason })
+  }
+
+  log('info', 'session.verified', { requestId, sessionId: session.sessionId, customerId: result.customer.id })
+  return res.json(await sessionResponse(getRequestStore(res), session.sessionId, result.customer.id))
+}))
+
+export default router
@@ -0,0 +1,114 @@
+import { type Request, type Response } from 'express'
+import { z } from 'zod'
+import { errorMeta, log } from '../logger.js'
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  requestFingerprint,
+  type StoredResponse
+} from '../services/idempotency/index.js'
+import { acquireTurnLock, releaseTurnLock, type TurnLockOptions } from '../services/turnLock.js'
+
+const idempotencyKeySchema = z.string().trim().min(1).max(255)
+
+/**
+ * What a running turn holds until it's over: its idempotency key (if any) and
+ * the conversation's turn lock. finish() gives both up, keeping the response
+ * for repeats of the request; null means it failed and a retry should run again.
+ */
+export type TurnHold = { finish: (response: StoredResponse | null) => Promise<void> }
+
+/**
+ * Get ready to run a turn: claim the request's idempotency key (the
+ * Idempotency-Key header, or else the clientMessageId), then wait for the
+ * conversation's turn (see services/turnLock.ts).
+ *
+ * A repeat of a finished turn is answered with the original response
+ * (through replay), and a repeat of one still running waits for it rather
+ * than running a second turn. A new message waits for the turn ahead of it,
+ * and gets a 409 if that takes too long.
+ *
+ * The conversation must already exist. Returns null when a response was
+ * already sent.
+ */
+export async function claimTurn(
+  req: Request,
+  res: Response,
+  args: {
+    storeId: string
+    sessionId: string
+    cleanMessage: string
+    clientMessageId?: string
+    logPrefix: string
+    replay: (response: StoredResponse) => void
+    turnLock?: TurnLockOptions
+  }
+): Promise<TurnHold | null> {
+  const requestId = (res.locals.requestId as string | undefined) ?? undefined
+  const header = req.header('idempotency-key')
+  const parsedHeader = header === undefined ? undefined : idempotencyKeySchema.safeParse(header)
+  if (parsedHeader && !parsedHeader.success) {
+    res.status(400).json({ error: 'Invalid Idempotency-Key' })
+    return null
+  }
+
+  const key = parsedHeader?.data ?? args.clientMessageId
+  const idempotency = key ? { conversationId: args.sessionId, key } : undefined
+  if (idempotency) {
+    const claim = await claimIdempotencyKey(idempotency, requestFingerprint(args.cleanMessage))
+    switch (claim.state) {
+      case 'claimed':
+        break
+      case 'replay':
+        log('info', `${args.logPrefix}.idempotent_replay`, { requestId, sessionId: args.sessionId, status: claim.response.status })
+        args.replay(claim.response)
+        return null
+      case 'mismatch':
+        log('warn', `${args.logPrefix}.idempotency_mismatch`, { requestId, sessionId: args.sessionId })
+        res.status(422).json({ error: 'This Idempotency-Key was already used for a different message' })
+        return null
+      case 'in_progress':
+        log('warn', `${args.logPrefix}.idempotency_in_progress`, { requestId, sessionId: args.sessionId })
+        res.setHeader('Retry-After', 5)
+        res.status(409).json({ error: 'This message is still being answered. Please try again shortly.' })
+        return null
+    }
+  }
+
+  const tLock = Date.now()
+  const lock = await acquireTurnLock(args.storeId, args.sessionId, args.turnLock).catch(async (err: unknown) => {
+    if (idempotency) await releaseIdempotencyKey(idempotency)
+    throw err
+  })
+  if (!lock) {
+    if (idempotency) await releaseIdempotencyKey(idempotency)
+    log('warn', `${args.logPrefix}.turn_busy`, { requestId, sessionId: args.sessionId, waitedMs: Date.now() - tLock })
+    res.setHeader('Retry-After', 5)
+    res.status(409).json({ error: 'An earlier message is still being answered. Please try again shortly.' })
+    return null
+  }
+  log('info', `${args.logPrefix}.turn_lock.ok`, { requestId, sessionId: args.sessionId, waitedMs: Date.now() - tLock })
+
+  return {
+    finish: async (response) => {
+      if (idempotency) {
+        if (response) await completeIdempotencyKey(idempotency, response)
+        else await releaseIdempotencyKey(idempotency)
+      }
+      // Left to lapse if this fails; the next turn just waits out the lease
+      await releaseTurnLock(lock).catch((err: unknown) => {
+        log('warn', `${args.logPrefix}.turn_unlock_failed`, { requestId, sessionId: args.sessionId, ...errorMeta(err) })
+      })
+    }
+  }
+}
+
+/**
+ * Send a turn's final JSON response, finishing the turn first so a repeat
+ * of the request replays it.
+ */
+export async function sendTurnResponse(res: Response, turn: TurnHold, status: number, body: unknown) {
+  await turn.finish({ status, body })
+  return res.status(status).json(body)
+}
@@ -0,0 +1,59 @@
+import { EventEmitter } from 'node:events'
+import type { ConversationRow, MessageRow, Sender } from '../repos/chatRepo.js'
+
+/**
+ * A message as clients see it, in history pages and pushed to subscribers.
+ * Internal fields (the grounding chunk ids, the personal-data flag) stay on
+ * the server. client_message_id echoes the id the client generated for its
+ * optimistic copy, so it can swap that copy for the stored one instead of
+ * showing the message twice.
+ */
+export type PublicMessage = {
+  id: string
+  role: Sender
+  text: string
+  interrupted: boolean
+  client_message_id: string | null
+  created_at: string
+}
+
+export function toPublicMessage(m: MessageRow): PublicMessage {
+  return {
+    id: m.id,
+    role: m.sender,
+    text: m.text,
+    interrupted: m.interrupted,
+    client_message_id: m.client_message_id,
+    created_at: m.created_at
+  }
+}
+
+export type ChatEvent =
+  | { type: 'message'; message: MessageRow }
+  | { type: 'status'; conversation: ConversationRow }
+
+const emitter = new EventEmitter()
+// One listener per open subscription; the default cap of 10 would just warn.
+emitter.setMaxListeners(0)
+
+/**
+ * In-process pub/sub for per-conversation events (new messages, ownership
+ * changes).
+ *
+ * Like the rate limiter this is process-local: with several instances a
+ * subscriber only sees events from writes made by the instance it's connected
+ * to. Postgres LISTEN/NOTIFY or Redis pub/sub would lift that if needed.
+ */
+export function publishChatEvent(conversationId: string, event: ChatEvent) {
+  emitter.emit(conversationId, event)
+}
+
+/**
+ * Listen for events on one conversation. Returns the unsubscribe function.
+ */
+export function subscribeChatEvents(conversationId: string, listener: (event: ChatEvent) => void) {
+  emitter.on(conversationId, listener)
+  return () => {
+    emitter.off(conversationId, listener)
+  }
+}
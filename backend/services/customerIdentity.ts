@@ -0,0 +1,66 @@
+import { createHmac, randomInt, timingSafeEqual } from 'node:crypto'
+import { env } from '../env.js'
+import {
+  completeVerification,
+  createVerificationCode,
+  getActiveVerificationCode,
+  recordFailedAttempt
+} from '../repos/customerRepo.js'
+import { getMailer } from './mailer.js'
+
+const CODE_TTL_MS = 10 * 60 * 1000
+const MAX_ATTEMPTS = 5
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+// Codes are short, so hash them with the server secret rather than a bare
+// digest that could be brute-forced from a database dump.
+function hashCode(email: string, code: string) {
+  return createHmac('sha256', env.SESSION_SECRET).update(`${normalizeEmail(email)}:${code}`).digest('hex')
+}
+
+/**
+ * Email a 6-digit code that proves the visitor owns `email`. Any earlier
+ * outstanding code for the session stops working.
+ */
+export async function startEmailVerification(sessionId: string, email: string) {
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0')
+  await createVerificationCode({
+    sessionId,
+    email: normalizeEmail(email),
+    codeHash: hashCode(email, code),
+    expiresAt: new Date(Date.now() + CODE_TTL_MS)
+  })
+
+  await getMailer().send({
+    to: email.trim(),
+    subject: 'Your support chat verification code',
+    text: `Your verification code is ${code}. It expires in ${CODE_TTL_MS / 60_000} minutes.\n\nIf you didn't ask for this, you can ignore this email.`
+  })
+}
+
+/**
+ * Check a code entered in the chat. On success the session's conversation is
+ * linked to the customer record and the customer is returned; otherwise a
+ * reason the widget can show.
+ */
+export async function verifyEmailCode(sessionId: string, email: string, code: string) {
+  const active = await getActiveVerificationCode(sessionId)
+  if (!active || active.email !== normalizeEmail(email)) {
+    return { ok: false as const, reason: 'This code has expired. Please request a new one.' }
+  }
+  if (active.attempts >= MAX_ATTEMPTS) {
+    return { ok: false as const, reason: 'Too many attempts. Please request a new code.' }
+  }
+
+  const expected = Buffer.from(active.code_hash)
+  const provided = Buffer.from(hashCode(email, code.trim()))
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    await recordFailedAttempt(active.id)
+    return { ok: false as const, reason: 'That code is not correct.' }
+  }
+
+  const customer = await completeVerification({ codeId: active.id, sessionId, email: active.email })
+  if (!customer) return { ok: false as const, reason: 'This code has already been used. Please request a new one.' }
+  return { ok: true as const, customer }
+}
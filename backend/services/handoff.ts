@@ -0,0 +1,134 @@
+import {
+  getConversation,
+  transitionConversation,
+  type ConversationStatus
+} from '../repos/chatRepo.js'
+import { isHumanRequest } from './llm/escalation.js'
+
+/**
+ * Stored as the AI's reply when a conversation is escalated, so the customer
+ * (and the operator reading the transcript) can see the handoff happened.
+ */
+export const HANDOFF_ACK =
+  "I've asked a member of our support team to join this conversation. They'll reply here as soon as they're available."
+
+export type EscalationReason = 'user_request' | 'model'
+
+/**
+ * Statuses in which the LLM must stay quiet and leave replies to an operator.
+ */
+export function isHumanOwned(status: ConversationStatus) {
+  return status === 'pending_human' || status === 'human'
+}
+
+/**
+ * Escalate a conversation the AI currently owns. Returns false if it was
+ * already escalated or owned by someone else (nothing to do).
+ */
+export async function escalateToHuman(storeId: string, conversationId: string, reason: EscalationReason) {
+  const row = await transitionConversation({
+    storeId,
+    conversationId,
+    from: ['ai'],
+    to: 'pending_human',
+    assignedOperator: null,
+    escalationReason: reason
+  })
+  return row !== null
+}
+
+/**
+ * Decide who answers a new customer message, before the LLM is involved.
+ *
+ * A closed conversation is reopened for the AI, and an explicit request for a
+ * human escalates immediately. Returns the resulting status and whether this
+ * message is what triggered the escalation.
+ */
+export async function resolveTurnOwner(storeId: string, conversationId: string, userMessage: string) {
+  const conversation = await getConversation(storeId, conversationId)
+  let status: ConversationStatus = conversation?.status ?? 'ai'
+
+  if (status === 'closed') {
+    const reopened = await transitionConversation({
+      storeId,
+      conversationId,
+      from: ['closed'],
+      to: 'ai',
+      assignedOperator: null
+    })
+    if (reopened) status = reopened.status
+  }
+
+  if (status === 'ai' && isHumanRequest(userMessage)) {
+    if (await escalateToHuman(storeId, conversationId, 'user_request')) {
+      return { status: 'pending_human' as const, escalatedNow: true }
+    }
+    // Lost a race with another escalation/claim; re-read the current owner
+    status = (await getConversation(storeId, conversationId))?.status ?? status
+  }
+
+  return { status, escalatedNow: false }
+}
+
+/**
+ * Operator takes ownership. Works from 'ai' (proactive takeover) or
+ * 'pending_human', and is idempotent for the operator who already owns it.
+ * Returns null if another operator holds it or the conversation doesn't exist.
+ */
+export async function claimConversation(storeId: string, conversationId: string, operator: string) {
+  return (
+    (await transitionConversation({
+      storeId,
+      conversationId,
+      from: ['ai', 'pending_human'],
+      to: 'human',
+      assignedOperator: operator
+    })) ??
+    (await transitionConversation({
+      storeId,
+      conversationId,
+      from: ['human'],
+      to: 'human',
+      assignedOperator: operator,
+      requireOperator: operator
+    }))
+  )
+}
+
+/**
+ * Operator hands the conversation back to the AI. Only the owning operator can release.
+ */
+export async function releaseConversation(storeId: string, conversationId: string, operator: string) {
+  return await transitionConversation({
+    storeId,
+    conversationId,
+    from: ['human'],
+    to: 'ai',
+    assignedOperator: null,
+    requireOperator: operator
+  })
+}
+
+/**
+ * Mark a conversation resolved. Unowned conversations can be closed by any
+ * operator; one held by an operator only by that operator.
+ */
+export async function closeConversation(storeId: string, conversationId: string, operator: string) {
+  return (
+    (await transitionConversation({
+      storeId,
+      conversationId,
+      from: ['ai', 'pending_human'],
+      to: 'closed',
+      assignedOperator: null
+    })) ??
+    (await transitionConversation({
+      storeId,
+      conversationId,
+      from: ['human'],
+      to: 'closed',
+      assignedOperator: null,
+      requireOperator: operator
+    }))
+  )
+}
@@ -0,0 +1,92 @@
+import { createHash } from 'node:crypto'
+import { env } from '../../env.js'
+import { log } from '../../logger.js'
+import { MemoryIdempotencyStore } from './memoryIdempotencyStore.js'
+import { PostgresIdempotencyStore } from './postgresIdempotencyStore.js'
+import type { IdempotencyScope, IdempotencyStore, StoredResponse } from './types.js'
+
+export type { IdempotencyScope, IdempotencyStore, StoredResponse } from './types.js'
+
+// How long a request holds its key; well past a turn's worst case, so only a crashed one loses it
+const LEASE_MS = 2 * 60_000
+// How long a finished request's response is replayed to repeats
+const RESPONSE_TTL_MS = 24 * 60 * 60_000
+// How long a repeat waits for the original to finish before giving up
+const WAIT_MS = 60_000
+const POLL_MS = 250
+
+let store: IdempotencyStore | null = null
+
+/**
+ * The key store selected by IDEMPOTENCY_STORE, created on first use.
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (store) return store
+  store = env.IDEMPOTENCY_STORE === 'postgres' ? new PostgresIdempotencyStore() : new MemoryIdempotencyStore()
+  return store
+}
+
+/** A stable digest of the request parts a key must keep meaning the same thing for. */
+export function requestFingerprint(...parts: string[]) {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex')
+}
+
+/**
+ * - claimed: run the request, then completeIdempotencyKey (or releaseIdempotencyKey if it failed)
+ * - replay: a repeat of a finished request; send its response again
+ * - mismatch: the key was used for a different request
+ * - in_progress: a repeat of a request still running after waiting for it
+ */
+export type IdempotencyClaim =
+  | { state: 'claimed' }
+  | { state: 'replay'; response: StoredResponse }
+  | { state: 'mismatch' }
+  | { state: 'in_progress' }
+
+/**
+ * Claim a key for a request. A repeat that arrives while the original is
+ * still running waits for it (up to waitMs) and gets its response, so
+ * duplicates never run side by side. If the store is unreachable the request
+ * runs unprotected (and it's logged), as with the rate limiter.
+ */
+export async function claimIdempotencyKey(
+  scope: IdempotencyScope,
+  fingerprint: string,
+  opts: { store?: IdempotencyStore; waitMs?: number; pollMs?: number } = {}
+): Promise<IdempotencyClaim> {
+  const keys = opts.store ?? getIdempotencyStore()
+  const pollMs = opts.pollMs ?? POLL_MS
+  const deadline = Date.now() + (opts.waitMs ?? WAIT_MS)
+
+  try {
+    while (true) {
+      const claim = await keys.claim(scope, fingerprint, LEASE_MS)
+      if (claim.claimed) return { state: 'claimed' }
+      if (claim.record.fingerprint !== fingerprint) return { state: 'mismatch' }
+      if (claim.record.response) return { state: 'replay', response: claim.record.response }
+      if (Date.now() + pollMs > deadline) return { state: 'in_progress' }
+      await new Promise((resolve) => setTimeout(resolve, pollMs))
+    }
+  } catch (err) {
+    log('warn', 'idempotency.store_failed', { ...scope, error: err instanceof Error ? err.message : String(err) })
+    return { state: 'claimed' }
+  }
+}
+
+/** Keep a claimed request's response for its repeats. */
+export async function completeIdempotencyKey(scope: IdempotencyScope, response: StoredResponse, keys = getIdempotencyStore()) {
+  try {
+    await keys.complete(scope, response, RESPONSE_TTL_MS)
+  } catch (err) {
+    log('warn', 'idempotency.store_failed', { ...scope, error: err instanceof Error ? err.message : String(err) })
+  }
+}
+
+/** Free a claimed key after the request failed, so a retry runs it again. */
+export async function releaseIdempotencyKey(scope: IdempotencyScope, keys = getIdempotencyStore()) {
+  try {
+    await keys.release(scope)
+  } catch (err) {
+    log('warn', 'idempotency.store_failed', { ...scope, error: err instanceof Error ? err.message : String(err) })
+  }
+}
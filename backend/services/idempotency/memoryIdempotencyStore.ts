@@ -0,0 +1,54 @@
+import type { IdempotencyRecord, IdempotencyScope, IdempotencyStore, StoredResponse } from './types.js'
+
+type Entry = IdempotencyRecord & { lockedUntil: number; expiresAt: number }
+
+const SWEEP_INTERVAL_MS = 60_000
+
+function entryKey(scope: IdempotencyScope) {
+  return `${scope.conversationId}:${scope.key}`
+}
+
+/**
+ * Process-local keys. A retry only finds its key on the instance that took
+ * the original request; use the Postgres store when running more than one.
+ * now is injectable so expiry can be driven by a fake clock.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, Entry>()
+
+  constructor(private readonly now: () => number = Date.now) {
+    setInterval(() => this.sweep(this.now()), SWEEP_INTERVAL_MS).unref()
+  }
+
+  async claim(scope: IdempotencyScope, fingerprint: string, leaseMs: number) {
+    const now = this.now()
+    const existing = this.live(entryKey(scope), now)
+    if (existing && (existing.response || existing.lockedUntil > now)) {
+      return { claimed: false as const, record: { fingerprint: existing.fingerprint, response: existing.response } }
+    }
+    this.entries.set(entryKey(scope), { fingerprint, response: null, lockedUntil: now + leaseMs, expiresAt: now + leaseMs })
+    return { claimed: true as const }
+  }
+
+  async complete(scope: IdempotencyScope, response: StoredResponse, ttlMs: number) {
+    const entry = this.entries.get(entryKey(scope))
+    if (!entry) return
+    this.entries.set(entryKey(scope), { ...entry, response, lockedUntil: 0, expiresAt: this.now() + ttlMs })
+  }
+
+  async release(scope: IdempotencyScope) {
+    const entry = this.entries.get(entryKey(scope))
+    if (entry && !entry.response) this.entries.delete(entryKey(scope))
+  }
+
+  sweep(now: number) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key)
+    }
+  }
+
+  private live(key: string, now: number) {
+    const entry = this.entries.get(key)
+    return entry && entry.expiresAt > now ? entry : null
+  }
+}
@@ -0,0 +1,92 @@
+import { pool } from '../../db/pool.js'
+import { sql } from '../../db/sql.js'
+import { log } from '../../logger.js'
+import type { IdempotencyRecord, IdempotencyScope, IdempotencyStore, StoredResponse } from './types.js'
+
+const SWEEP_INTERVAL_MS = 5 * 60_000
+
+type Row = { fingerprint: string; response_status: number | null; response_body: unknown }
+
+function toRecord(row: Row): IdempotencyRecord {
+  return {
+    fingerprint: row.fingerprint,
+    response: row.response_status === null ? null : { status: row.response_status, body: row.response_body }
+  }
+}
+
+/**
+ * Keys in the `idempotency_keys` table (see db/migrations), so a retry finds
+ * its key whichever instance it reaches. Leases and expiry use the database
+ * clock. Rows go with their conversation when it's erased.
+ */
+export class PostgresIdempotencyStore implements IdempotencyStore {
+  constructor() {
+    setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS).unref()
+  }
+
+  async claim(scope: IdempotencyScope, fingerprint: string, leaseMs: number) {
+    // Takes over a row only if it expired or its holder's lease ran out
+    const upsert = sql`
+      INSERT INTO idempotency_keys AS k (conversation_id, key, fingerprint, locked_until, expires_at)
+      VALUES (${scope.conversationId}::uuid, ${scope.key}, ${fingerprint},
+        clock_timestamp() + ${leaseMs} * interval '1 millisecond',
+        clock_timestamp() + ${leaseMs} * interval '1 millisecond')
+      ON CONFLICT (conversation_id, key) DO UPDATE
+      SET fingerprint = EXCLUDED.fingerprint,
+        response_status = NULL,
+        response_body = NULL,
+        locked_until = EXCLUDED.locked_until,
+        expires_at = EXCLUDED.expires_at
+      WHERE k.expires_at < clock_timestamp()
+        OR (k.response_status IS NULL AND k.locked_until < clock_timestamp())
+      RETURNING 1
+    `
+    const r = await pool.query(upsert.text, upsert.values)
+    if (r.rowCount) return { claimed: true as const }
+
+    // Held by someone else; if it vanished in between, report it as still in flight and let the caller poll
+    const record = await this.get(scope)
+    return { claimed: false as const, record: record ?? { fingerprint, response: null } }
+  }
+
+  private async get(scope: IdempotencyScope) {
+    const q = sql`
+      SELECT fingerprint, response_status, response_body
+      FROM idempotency_keys
+      WHERE conversation_id = ${scope.conversationId}::uuid AND key = ${scope.key}
+        AND expires_at > clock_timestamp()
+    `
+    const r = await pool.query<Row>(q.text, q.values)
+    return r.rows[0] ? toRecord(r.rows[0]) : null
+  }
+
+  async complete(scope: IdempotencyScope, response: StoredResponse, ttlMs: number) {
+    const q = sql`
+      UPDATE idempotency_keys
+      SET response_status = ${response.status},
+        response_body = ${JSON.stringify(response.body)}::jsonb,
+        locked_until = NULL,
+        expires_at = clock_timestamp() + ${ttlMs} * interval '1 millisecond'
+      WHERE conversation_id = ${scope.conversationId}::uuid AND key = ${scope.key}
+    `
+    await pool.query(q.text, q.values)
+  }
+
+  async release(scope: IdempotencyScope) {
+    const q = sql`
+      DELETE FROM idempotency_keys
+      WHERE conversation_id = ${scope.conversationId}::uuid AND key = ${scope.key} AND response_status IS NULL
+    `
+    await pool.query(q.text, q.values)
+  }
+
+  async sweep() {
+    try {
+      const q = sql`DELETE FROM idempotency_keys WHERE expires_at < clock_timestamp()`
+      const r = await pool.query(q.text, q.values)
+      if (r.rowCount) log('info', 'idempotency.sweep', { deleted: r.rowCount })
+    } catch (err) {
+      log('warn', 'idempotency.sweep_failed', { error: err instanceof Error ? err.message : String(err) })
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * What a key is scoped to: one conversation, so two customers (or two
+ * conversations of one customer) can't collide on a key.
+ */
+export type IdempotencyScope = {
+  conversationId: string
+  key: string
+}
+
+/** The response to replay for a repeated request. */
+export type StoredResponse = {
+  status: number
+  body: unknown
+}
+
+/**
+ * A key as stored. fingerprint identifies the request body the key was first
+ * used with; response is null while that request is still in flight.
+ */
+export type IdempotencyRecord = {
+  fingerprint: string
+  response: StoredResponse | null
+}
+
+/**
+ * Where idempotency keys live. claim() must be atomic per key so two
+ * concurrent requests can't both claim it.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim a key for a new request, holding it for leaseMs. Succeeds when the
+   * key is unused, expired, or held by a request whose lease ran out (it
+   * presumably crashed); otherwise returns the record as it stands.
+   */
+  claim(scope: IdempotencyScope, fingerprint: string, leaseMs: number): Promise<{ claimed: true } | { claimed: false; record: IdempotencyRecord }>
+  /** Store the response of the request holding the key, kept for ttlMs. */
+  complete(scope: IdempotencyScope, response: StoredResponse, ttlMs: number): Promise<void>
+  /** Give up a claimed key without a response, so a retry runs the request again. */
+  release(scope: IdempotencyScope): Promise<void>
+}
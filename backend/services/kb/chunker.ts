@@ -0,0 +1,38 @@
+/**
+ * Split a document into retrieval-sized chunks.
+ *
+ * Paragraphs (blank-line separated) are packed greedily up to maxChars so a
+ * chunk never splits a paragraph unless that paragraph alone is too long, in
+ * which case it is cut on line boundaries. Each chunk is prefixed with the
+ * document title so it still makes sense (and matches searches) on its own.
+ */
+export function chunkDocument(args: { title: string; body: string; maxChars?: number }) {
+  const maxChars = args.maxChars ?? 800
+  const pieces: string[] = []
+
+  for (const para of args.body.split(/\n\s*\n/)) {
+    const trimmed = para.trim()
+    if (!trimmed) continue
+    if (trimmed.length <= maxChars) {
+      pieces.push(trimmed)
+      continue
+    }
+    // Oversized paragraph: fall back to individual lines
+    for (const line of trimmed.split('\n')) {
+      if (line.trim()) pieces.push(line.trim().slice(0, maxChars))
+    }
+  }
+
+  const chunks: string[] = []
+  let current = ''
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current)
+      current = ''
+    }
+    current = current ? `${current}\n\n${piece}` : piece
+  }
+  if (current) chunks.push(current)
+
+  return chunks.map((text) => `${args.title}\n${text}`)
+}
@@ -0,0 +1,62 @@
+import { env } from '../../env.js'
+import { log } from '../../logger.js'
+import { addRevision, createDocument, searchChunks } from '../../repos/kbRepo.js'
+import { DEFAULT_STORE_ID } from '../../repos/storeRepo.js'
+import { FAQ_SEED_DOCUMENTS } from '../llm/faq.js'
+import { chunkDocument } from './chunker.js'
+
+export type RetrievedChunk = { id: string; text: string }
+
+/**
+ * Make sure the default store's policies exist in the knowledge base. Other
+ * stores start empty and get their policies through the admin KB API.
+ *
+ * Runs at startup after initDb. Documents are keyed by slug, so anything
+ * already present (including edits made since seeding) is left alone.
+ */
+export async function seedKnowledgeBase() {
+  for (const doc of FAQ_SEED_DOCUMENTS) {
+    const id = await createKbDocument({ ...doc, storeId: DEFAULT_STORE_ID, note: 'Initial seed', publish: true })
+    if (id) log('info', 'kb.seeded', { slug: doc.slug, documentId: id })
+  }
+}
+
+/**
+ * Create a store's document (revision 1), chunking its body for retrieval.
+ * Returns null if the slug is already taken in that store.
+ */
+export async function createKbDocument(args: {
+  storeId: string
+  slug: string
+  title: string
+  body: string
+  note?: string
+  publish: boolean
+}) {
+  return await createDocument({ ...args, chunks: chunkDocument(args) })
+}
+
+/**
+ * Store edited content as the document's next revision. The published
+ * revision doesn't change until it's explicitly published.
+ * Returns the new revision number, or null if the document doesn't exist.
+ */
+export async function reviseKbDocument(args: { documentId: string; title: string; body: string; note?: string }) {
+  return await addRevision({ ...args, chunks: chunkDocument(args) })
+}
+
+/**
+ * Fetch the top-k chunks of a store's knowledge base relevant to a question.
+ *
+ * Retrieval failures are logged and treated as "no context" so a search
+ * problem degrades answers instead of failing the whole chat turn.
+ */
+export async function retrieveContext(storeId: string, question: string): Promise<RetrievedChunk[]> {
+  try {
+    const matches = await searchChunks(storeId, question, env.KB_TOP_K)
+    return matches.map((m) => ({ id: m.id, text: m.text }))
+  } catch (err) {
+    log('warn', 'kb.retrieve_failed', { error: String(err) })
+    return []
+  }
+}
@@ -0,0 +1,129 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages'
+import { env } from '../../env.js'
+import { log } from '../../logger.js'
+import { getNewerMessages, type MessageRow } from '../../repos/chatRepo.js'
+import { countMessagesAfter, getConversationSummary, saveConversationSummary } from '../../repos/summaryRepo.js'
+import { insertLlmCall } from '../../repos/llmCallRepo.js'
+import { createChatModel } from './providers/index.js'
+import { createUsageMeter } from './usage.js'
+import { createRedactor } from '../redaction.js'
+
+const SUMMARY_PROMPT = `You keep a running summary of a customer support chat for the support agent, who will only see
+this summary plus the latest few messages.
+Update the previous summary with the new messages. Keep every detail the agent may need later: order numbers,
+email addresses the customer gave, items, dates, what was promised or decided, and what is still unresolved.
+Personal details appear as placeholders such as [EMAIL_1]; copy them exactly as written.
+Drop greetings and small talk. Write plain sentences, at most 150 words.`
+
+// Upper bound on messages folded into one refresh; anything older is left to the next refresh
+const MAX_MESSAGES_PER_REFRESH = 200
+const MAX_CHARS_PER_MESSAGE = 1000
+const NIL_UUID = '00000000-0000-0000-0000-000000000000'
+
+const SPEAKERS: Record<MessageRow['sender'], string> = { user: 'Customer', ai: 'Assistant', agent: 'Support team' }
+
+/**
+ * The stored summary of a conversation's older turns, and the message it runs
+ * up to. Messages after that point are the ones the prompt should show verbatim.
+ */
+export async function loadConversationMemory(conversationId: string) {
+  const record = await getConversationSummary(conversationId)
+  if (!record) return { summary: null, through: null }
+  return {
+    summary: record.summary,
+    through: { createdAt: new Date(record.through_created_at).toISOString(), id: record.through_message_id }
+  }
+}
+
+/**
+ * Drop messages the summary already covers.
+ */
+export function excludeSummarized(messages: MessageRow[], through: { createdAt: string; id: string } | null) {
+  if (!through) return messages
+  const boundary = Date.parse(through.createdAt)
+  return messages.filter((m) => {
+    const t = new Date(m.created_at).getTime()
+    return t > boundary || (t === boundary && m.id > through.id)
+  })
+}
+
+/**
+ * Fold messages that no longer fit in the prompt into the rolling summary,
+ * using the conversation's store's model.
+ *
+ * keptMessages is how many of the newest messages the next prompt will show
+ * verbatim; once more than LLM_SUMMARY_TRIGGER_MESSAGES unsummarized messages
+ * sit before those, they're summarized (together with the previous summary)
+ * and the summary's boundary moves forward. Meant to run after a reply has
+ * been sent, so failures are logged rather than thrown.
+ */
+export async function refreshSummaryIfNeeded(args: {
+  storeId: string
+  model: string
+  conversationId: string
+  keptMessages: number
+  requestId?: string
+}) {
+  const { storeId, model, conversationId, keptMessages, requestId } = args
+  try {
+    const memory = await loadConversationMemory(conversationId)
+    const unsummarized = await countMessagesAfter(conversationId, memory.through)
+    const dropped = unsummarized - keptMessages
+    if (dropped < env.LLM_SUMMARY_TRIGGER_MESSAGES) return false
+
+    const batch = await getNewerMessages({
+      storeId,
+      conversationId,
+      afterCreatedAt: memory.through?.createdAt ?? '-infinity',
+      afterId: memory.through?.id ?? NIL_UUID,
+      limit: Math.min(dropped, MAX_MESSAGES_PER_REFRESH)
+    })
+    const last = batch[batch.length - 1]
+    if (!last) return false
+
+    // The model summarizes placeholders; the stored summary gets the real values back, like messages
+    const redactor = createRedactor()
+    const transcript = batch
+      .map((m) => `${SPEAKERS[m.sender]}: ${redactor.redact(m.text.slice(0, MAX_CHARS_PER_MESSAGE))}`)
+      .join('\n')
+    const previousSummary = memory.summary ? redactor.redact(memory.summary) : '(none yet)'
+
+    const prompt = [
+      new SystemMessage(SUMMARY_PROMPT),
+      new HumanMessage(`Previous summary:\n${previousSummary}\n\nNew messages:\n${transcript}`)
+    ]
+    const startedAt = Date.now()
+    const res = await createChatModel(model).invoke(prompt)
+    const usage = createUsageMeter(model)
+    usage.add({ prompt, response: res, latencyMs: Date.now() - startedAt })
+    await insertLlmCall({ conversationId, messageId: null, purpose: 'summary', usage: usage.total() })
+
+    const summary = redactor.restore((res.content ?? '').toString().trim())
+    if (!summary) return false
+
+    const previous = await getConversationSummary(conversationId)
+    const saved = await saveConversationSummary({
+      conversationId,
+      summary,
+      throughCreatedAt: new Date(last.created_at).toISOString(),
+      throughMessageId: last.id,
+      summarizedMessages: (previous?.summarized_messages ?? 0) + batch.length
+    })
+
+    log('info', 'llm.summary.refreshed', {
+      requestId,
+      sessionId: conversationId,
+      summarized: batch.length,
+      saved,
+      durationMs: Date.now() - startedAt
+    })
+    return saved
+  } catch (err) {
+    log('warn', 'llm.summary.refresh_failed', {
+      requestId,
+      sessionId: conversationId,
+      error: err instanceof Error ? err.message : String(err)
+    })
+    return false
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Marker the model appends when it decides a human should take over. It is
+ * stripped before the reply is stored or shown to the customer.
+ */
+export const HANDOFF_MARKER = '[[HANDOFF]]'
+
+// Phrases that clearly ask for a person rather than the bot.
+const HUMAN_REQUEST_PATTERNS = [
+  /\b(talk|speak|chat)\s+(to|with)\s+(a\s+|an\s+|some\s*one|somebody|your\s+)?(human|person|real person|agent|representative|rep|operator|someone|somebody|staff|team)\b/i,
+  /\b(human|live|real)\s+(agent|person|support|representative|operator)\b/i,
+  /\b(connect|transfer|escalate)\s+me\b/i,
+  /^\s*(agent|human|representative|operator)\s*[.!?]*\s*$/i
+]
+
+/**
+ * True when the customer explicitly asks for a human. Kept deliberately
+ * conservative; anything subtler is left to the model via HANDOFF_MARKER.
+ */
+export function isHumanRequest(text: string) {
+  return HUMAN_REQUEST_PATTERNS.some((re) => re.test(text))
+}
+
+/**
+ * Remove the handoff marker from a complete reply.
+ */
+export function stripHandoffMarker(text: string) {
+  if (!text.includes(HANDOFF_MARKER)) return { text, handoff: false }
+  return { text: text.split(HANDOFF_MARKER).join('').trim(), handoff: true }
+}
+
+/**
+ * Streaming counterpart of stripHandoffMarker. Text that could be the start of
+ * the marker is held back until it's clear either way, so the customer never
+ * sees a partial "[[HAND".
+ */
+export function createHandoffFilter() {
+  let pending = ''
+  let handoff = false
+
+  return {
+    get handoff() {
+      return handoff
+    },
+    /** Feed a delta; returns the text that is safe to emit now. */
+    push(delta: string) {
+      pending += delta
+      if (pending.includes(HANDOFF_MARKER)) {
+        handoff = true
+        pending = pending.split(HANDOFF_MARKER).join('')
+      }
+      // Hold back the longest suffix that is a prefix of the marker
+      let hold = 0
+      for (let n = Math.min(HANDOFF_MARKER.length - 1, pending.length); n > 0; n--) {
+        if (HANDOFF_MARKER.startsWith(pending.slice(-n))) {
+          hold = n
+          break
+        }
+      }
+      const out = pending.slice(0, pending.length - hold)
+      pending = pending.slice(pending.length - hold)
+      return out
+    },
+    /** Flush whatever is left once the stream ends. */
+    flush() {
+      const out = pending
+      pending = ''
+      return out
+    }
+  }
+}
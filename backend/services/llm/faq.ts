@@ -1,17 +1,34 @@
-export const FAQ_SEED = `
-FAQ / Store Policies
-
-Shipping Policy:
+/**
+ * Store policies used to seed the knowledge base on first boot.
+ *
+ * Once seeded, the agent answers from the kb_documents/kb_chunks tables, so
+ * editing this file only affects fresh databases.
+ */
+export const FAQ_SEED_DOCUMENTS = [
+  {
+    slug: 'shipping-policy',
+    title: 'Shipping Policy',
+    body: `
 - Orders are processed in 1-2 business days.
 - Standard shipping typically takes 3-7 business days.
 - Expedited shipping options may be available at checkout.
-
-Returns & Refunds:
+`.trim()
+  },
+  {
+    slug: 'returns-refunds',
+    title: 'Returns & Refunds',
+    body: `
 - Returns are accepted within 30 days of delivery.
 - Items must be unused and in original packaging.
 - Refunds are issued to the original payment method within 5-10 business days after we receive and inspect the return.
-
-Support Hours:
+`.trim()
+  },
+  {
+    slug: 'support-hours',
+    title: 'Support Hours',
+    body: `
 - Monday to Friday, 9am to 5pm (local time).
 - We respond to most inquiries within 24 business hours.
 `.trim()
+  }
+]
@@ -0,0 +1,56 @@
+import type { TiktokenEncoding } from 'js-tiktoken'
+import { env } from '../../env.js'
+
+/**
+ * What we need to know about a model to budget and price a request.
+ * Prices are USD per million tokens; null when we don't know them (e.g. a
+ * self-hosted model), in which case usage is recorded without a cost.
+ */
+export type ModelSpec = {
+  contextWindow: number
+  encoding: TiktokenEncoding
+  inputPerMTok: number | null
+  outputPerMTok: number | null
+}
+
+/**
+ * Known models, matched by prefix so dated snapshots (gpt-4.1-mini-2025-04-14)
+ * resolve to their family. Keep prices in line with the provider's price list.
+ */
+const MODEL_REGISTRY: Record<string, ModelSpec> = {
+  'gpt-4.1': { contextWindow: 1_047_576, encoding: 'o200k_base', inputPerMTok: 2, outputPerMTok: 8 },
+  'gpt-4.1-mini': { contextWindow: 1_047_576, encoding: 'o200k_base', inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  'gpt-4.1-nano': { contextWindow: 1_047_576, encoding: 'o200k_base', inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  'gpt-4o': { contextWindow: 128_000, encoding: 'o200k_base', inputPerMTok: 2.5, outputPerMTok: 10 },
+  'gpt-4o-mini': { contextWindow: 128_000, encoding: 'o200k_base', inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  'gpt-4-turbo': { contextWindow: 128_000, encoding: 'cl100k_base', inputPerMTok: 10, outputPerMTok: 30 },
+  'gpt-3.5-turbo': { contextWindow: 16_385, encoding: 'cl100k_base', inputPerMTok: 0.5, outputPerMTok: 1.5 }
+}
+
+// Unregistered models (local servers, new releases): a conservative window,
+// the modern OpenAI tokenizer as an approximation, and no pricing.
+const UNKNOWN_MODEL: ModelSpec = {
+  contextWindow: 8_192,
+  encoding: 'o200k_base',
+  inputPerMTok: null,
+  outputPerMTok: null
+}
+
+/**
+ * Look up a model by name (longest matching prefix wins). LLM_CONTEXT_WINDOW
+ * overrides the window, for self-hosted models the registry can't know about.
+ */
+export function getModelSpec(model: string = env.LLM_MODEL): ModelSpec {
+  const key = Object.keys(MODEL_REGISTRY)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0]
+  const spec = key ? MODEL_REGISTRY[key] : UNKNOWN_MODEL
+  return env.LLM_CONTEXT_WINDOW ? { ...spec, contextWindow: env.LLM_CONTEXT_WINDOW } : spec
+}
+
+/** Price a request; null when the model's prices aren't known. */
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number) {
+  const spec = getModelSpec(model)
+  if (spec.inputPerMTok === null || spec.outputPerMTok === null) return null
+  return (promptTokens * spec.inputPerMTok + completionTokens * spec.outputPerMTok) / 1_000_000
+}
@@ -0,0 +1,26 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import { env } from '../../../env.js'
+import { createOpenAiModel } from './openai.js'
+import { StubChatModel } from './stub.js'
+
+let stubModel: StubChatModel | null = null
+
+/**
+ * Build the chat model selected by LLM_PROVIDER.
+ *
+ * Callers only see LangChain's BaseChatModel, so invoke/stream work the same
+ * regardless of which backend is configured. model overrides LLM_MODEL (a
+ * store's own model choice); the stub ignores it.
+ */
+export function createChatModel(model: string = env.LLM_MODEL): BaseChatModel {
+  switch (env.LLM_PROVIDER) {
+    case 'openai':
+      return createOpenAiModel({ model })
+    case 'openai_compatible':
+      return createOpenAiModel({ baseURL: env.LLM_BASE_URL, model })
+    case 'stub':
+      // The stub is stateless, so parse the fixture file once and reuse it.
+      stubModel ??= new StubChatModel({ fixturePath: env.LLM_STUB_FIXTURE })
+      return stubModel
+  }
+}
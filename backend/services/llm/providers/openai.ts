@@ -0,0 +1,24 @@
+import { ChatOpenAI } from '@langchain/openai'
+import { env } from '../../../env.js'
+
+/**
+ * OpenAI chat model. When baseURL is given, the same client talks to any
+ * OpenAI-compatible server (vLLM, Ollama, LM Studio, ...), in which case an
+ * API key is optional since most local servers ignore it. model defaults to
+ * LLM_MODEL.
+ */
+export function createOpenAiModel(opts: { baseURL?: string; model?: string } = {}) {
+  if (!opts.baseURL && !env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY is not configured')
+  }
+
+  // LLM client. We keep temperature low for crisp, policy-like answers.
+  return new ChatOpenAI({
+    apiKey: env.OPENAI_API_KEY ?? 'not-needed',
+    model: opts.model ?? env.LLM_MODEL,
+    maxTokens: env.LLM_MAX_COMPLETION_TOKENS,
+    timeout: env.LLM_TIMEOUT_MS,
+    temperature: 0.1,
+    configuration: opts.baseURL ? { baseURL: opts.baseURL } : undefined
+  })
+}
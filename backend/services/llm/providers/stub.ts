@@ -0,0 +1,71 @@
+import { readFileSync } from 'node:fs'
+import { z } from 'zod'
+import { SimpleChatModel } from '@langchain/core/language_models/chat_models'
+import { AIMessageChunk, type BaseMessage } from '@langchain/core/messages'
+import { ChatGenerationChunk } from '@langchain/core/outputs'
+
+// A fixture is a list of canned replies. The first rule whose `match` regex
+// (case-insensitive) matches the latest user message wins; a rule without
+// `match` matches anything.
+const fixtureSchema = z.array(
+  z.object({
+    match: z.string().optional(),
+    reply: z.string().min(1)
+  })
+)
+
+type StubRule = { match: RegExp | null; reply: string }
+
+function loadFixture(path: string): StubRule[] {
+  const raw = JSON.parse(readFileSync(path, 'utf8'))
+  return fixtureSchema.parse(raw).map((r) => ({
+    match: r.match ? new RegExp(r.match, 'i') : null,
+    reply: r.reply
+  }))
+}
+
+/**
+ * Deterministic, network-free chat model for CI and offline development.
+ *
+ * Replies come from the fixture file if one is configured, otherwise the stub
+ * simply echoes the latest user message. Streaming yields the reply word by word
+ * so the SSE path behaves like a real model.
+ */
+export class StubChatModel extends SimpleChatModel {
+  private rules: StubRule[]
+
+  constructor(opts: { fixturePath?: string } = {}) {
+    super({})
+    this.rules = opts.fixturePath ? loadFixture(opts.fixturePath) : []
+  }
+
+  _llmType() {
+    return 'stub'
+  }
+
+  // The stub never calls tools; binding them is a no-op so the agent's tool
+  // loop runs unchanged against it.
+  bindTools() {
+    return this
+  }
+
+  private replyFor(messages: BaseMessage[]) {
+    const lastUser = [...messages].reverse().find((m) => m.getType() === 'human')
+    const userText = lastUser ? lastUser.text : ''
+
+    const rule = this.rules.find((r) => !r.match || r.match.test(userText))
+    if (rule) return rule.reply
+    return `Echo: ${userText}`
+  }
+
+  async _call(messages: BaseMessage[]) {
+    return this.replyFor(messages)
+  }
+
+  async *_streamResponseChunks(messages: BaseMessage[]) {
+    const words = this.replyFor(messages).split(/(?<=\s)/)
+    for (const word of words) {
+      yield new ChatGenerationChunk({ text: word, message: new AIMessageChunk({ content: word }) })
+    }
+  }
+}
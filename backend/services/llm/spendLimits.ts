@@ -0,0 +1,66 @@
+import { env } from '../../env.js'
+import { getTokensUsedSince } from '../../repos/llmCallRepo.js'
+import { retrieveContext } from '../kb/knowledgeBase.js'
+
+export type BudgetScope = 'session' | 'ip' | 'global'
+
+/** A daily token budget that has run out, and when it starts over. */
+export type ExhaustedBudget = {
+  scope: BudgetScope
+  used: number
+  limit: number
+  resetAt: Date
+}
+
+function startOfUtcDay(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+}
+
+/**
+ * Check a store's daily LLM token budgets (per visitor session, per client IP
+ * and overall) before asking the model for a reply. Returns the first budget
+ * that is used up, or null if the reply may go ahead. Usage comes from
+ * llm_calls, so the budgets hold across backend instances; a reply that
+ * starts under budget is allowed to finish even if it goes over.
+ */
+export async function findExhaustedBudget(args: {
+  storeId: string
+  visitorId: string
+  clientIp: string | null
+  now?: Date
+}) {
+  const limits: Array<[BudgetScope, number]> = [
+    ['session', env.LLM_DAILY_TOKENS_PER_SESSION],
+    ['ip', env.LLM_DAILY_TOKENS_PER_IP],
+    ['global', env.LLM_DAILY_TOKENS_GLOBAL]
+  ]
+  if (limits.every(([, limit]) => limit === 0)) return null
+
+  const dayStart = startOfUtcDay(args.now ?? new Date())
+  const used = await getTokensUsedSince({
+    storeId: args.storeId,
+    since: dayStart,
+    visitorId: args.visitorId,
+    clientIp: args.clientIp
+  })
+
+  for (const [scope, limit] of limits) {
+    if (limit > 0 && used[scope] >= limit) {
+      return { scope, used: used[scope], limit, resetAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000) }
+    }
+  }
+  return null
+}
+
+/**
+ * Canned reply for when a budget is used up: the store's policy that best
+ * matches the question (found with full-text search, no model call), or a
+ * pointer to try again later.
+ */
+export async function budgetFallbackReply(storeId: string, userMessage: string) {
+  const [best] = await retrieveContext(storeId, userMessage)
+  const text = best
+    ? `I can't give a detailed answer right now, but this store policy may help:\n\n${best.text}\n\nIf you need more, please try again later or ask to talk to a person.`
+    : "I can't answer right now. Please try again later or ask to talk to a person."
+  return { text, sourceChunkIds: best ? [best.id] : [] }
+}
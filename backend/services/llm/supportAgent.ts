@@ -1,15 +1,35 @@
-import { ChatOpenAI } from '@langchain/openai'
-import { HumanMessage, SystemMessage, AIMessage } from '@langchain/core/messages'
+import {
+  HumanMessage,
+  SystemMessage,
+  AIMessage,
+  ToolMessage,
+  type AIMessageChunk,
+  type BaseMessage,
+  type ToolCall
+} from '@langchain/core/messages'
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import type { StructuredToolInterface } from '@langchain/core/tools'
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling'
 import { env } from '../../env.js'
-import { FAQ_SEED } from './faq.js'
-import { takeRecentWithinTokenBudget } from './tokenBudget.js'
+import { log } from '../../logger.js'
+import { countMessageTokens, countTokens, takeRecentWithinTokenBudget } from './tokenBudget.js'
+import { getModelSpec } from './models.js'
+import { createUsageMeter } from './usage.js'
+import { createChatModel } from './providers/index.js'
+import { createRedactor, type Redactor } from '../redaction.js'
+import { storeModel } from '../stores.js'
+import type { StoreRow } from '../../repos/storeRepo.js'
+import { retrieveContext, type RetrievedChunk } from '../kb/knowledgeBase.js'
+import { HANDOFF_MARKER, createHandoffFilter, stripHandoffMarker } from './escalation.js'
+import { orderStatusTool } from './tools/orderStatusTool.js'
+import { returnRequestTool } from './tools/returnRequestTool.js'
 
 /**
- * High-level system prompt that keeps the assistant focused on store support.
- * We also inject a short FAQ block with house policies to make answers consistent.
+ * Persona for stores without a system prompt of their own, keeping the
+ * assistant focused on store support. A store's system_prompt replaces it.
  */
-const SYSTEM_PROMPT =
-  `You are a helpful support agent for a small e-commerce store.
+function defaultPersona(storeName: string) {
+  return `You are a helpful support agent for ${storeName}, a small e-commerce store.
 Only answer questions related to:
 - orders
 - shipping
@@ -20,59 +40,338 @@ Only answer questions related to:
 
 If a question is unrelated, politely refuse and redirect the user to store-related topics.
 Do not perform general knowledge tasks, homework, coding, math, or image generation.`
+}
+
+/**
+ * How to use the tools, the personal-data placeholders and the handoff
+ * marker. Appended to every store's prompt, since the rest of the pipeline
+ * depends on them. Relevant policies from the store's knowledge base follow
+ * (see formatContext).
+ */
+const AGENT_RULES = `To check on an order, use the get_order_status tool. You need both the order number and the email address
+the order was placed with; if the customer hasn't given you both, ask for whichever is missing before calling it.
+Never reveal anything about an order the tool didn't return.
+
+To start a return, collect the order number, checkout email, which items and how many, and the reason (over as many
+turns as needed), look the order up to get the item SKUs, confirm the details with the customer, then call
+create_return_request. If it is refused, explain why. The order lookup also shows the status of an existing return.
+
+The customer's personal details (email addresses, phone numbers, card numbers, street addresses) are shown to you as
+placeholders such as [EMAIL_1] or [PHONE_2]. Use a placeholder exactly as written wherever you need the value, in replies
+and in tool arguments; the real value is filled in for you. Never ask the customer to repeat a detail you have as a placeholder.
+
+If the customer asks for a human, or their issue needs a person (account changes, damaged or missing items,
+complaints, anything you can't resolve from the store policies), tell them you're bringing in a member of the team
+and end your reply with ${HANDOFF_MARKER} on its own line.`
+
+
+export const FALLBACK_REPLY = "I'm sorry - I couldn't generate a response right now."
+
+type HistoryTurn = { role: 'user' | 'ai'; content: string }
 
+const SUPPORT_TOOLS = [orderStatusTool, returnRequestTool]
+
+// Tool rounds per reply; after this the model has to answer with what it has.
+const MAX_TOOL_ROUNDS = 3
+
+/** One tool call made while producing a reply, for the llm_tool_calls log. */
+export type ToolInvocation = {
+  name: string
+  args: Record<string, unknown>
+  ok: boolean
+  result: string
+  durationMs: number
+}
+
+// Tool definitions are sent with every request, so they count against the prompt budget.
+let toolDefinitionTokens: number | undefined
+
+function countToolDefinitionTokens() {
+  toolDefinitionTokens ??= countTokens(JSON.stringify(SUPPORT_TOOLS.map((t) => convertToOpenAITool(t))))
+  return toolDefinitionTokens
+}
 
 /**
- * Ask the LLM for a support reply, given a conversation history and the new user message.
- *
- * history: array of chat turns (oldest -> newest), consisting only of role/content.
- * userMessage: the latest user input to answer.
+ * Bind the support tools for one round. Providers without tool support (the
+ * stub, some compatible servers) get the plain model.
  */
-export async function generateSupportReply(
-  historyOldestToNewest: Array<{ role: 'user' | 'ai'; content: string }>,
-  userMessage: string
+function modelForRound(model: BaseChatModel, round: number) {
+  if (!model.bindTools) return model
+  // On the last round tools stay declared (the transcript references them) but can't be called.
+  return round < MAX_TOOL_ROUNDS
+    ? model.bindTools(SUPPORT_TOOLS)
+    : model.bindTools(SUPPORT_TOOLS, { tool_choice: 'none' })
+}
+
+/**
+ * Execute one tool call from the model. Failures (unknown tool, bad
+ * arguments, provider errors) go back to the model as the tool's output so it
+ * can recover, rather than failing the whole reply.
+ */
+async function runToolCall(
+  call: ToolCall,
+  context: { conversationId?: string; storeId: string },
+  redactor: Redactor
 ) {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not configured')
+  const started = Date.now()
+  const tool = SUPPORT_TOOLS.find((t) => t.name === call.name)
+  // The model only knows the placeholders; tools need the real values
+  const args = redactor.restoreArgs(call.args)
+
+  let ok = false
+  let result: string
+  try {
+    if (!tool) throw new Error(`Unknown tool: ${call.name}`)
+    // Tools read the conversation and store they act for from the run config
+    result = String(await (tool as StructuredToolInterface).invoke(args, { configurable: context }))
+    ok = true
+  } catch (err) {
+    result = `Error: ${err instanceof Error ? err.message : String(err)}`
   }
 
-  // LLM client. We keep temperature low for crisp, policy-like answers.
-  const model = new ChatOpenAI({
-    apiKey: env.OPENAI_API_KEY,
-    model: env.LLM_MODEL,
-    maxTokens: env.LLM_MAX_COMPLETION_TOKENS,
-    timeout: env.LLM_TIMEOUT_MS,
-    temperature: 0.1
-  })
+  const invocation: ToolInvocation = {
+    name: call.name,
+    args,
+    ok,
+    result,
+    durationMs: Date.now() - started
+  }
+  log(ok ? 'info' : 'warn', 'llm.tool_call', { tool: call.name, ok, durationMs: invocation.durationMs })
 
-  // Build candidate history from provided turns and include the new user message as the freshest turn.
-  // We construct newest->oldest for trimming with a simple token budget.
-  const newestToOldest = [
-    { role: 'user' as const, content: userMessage },
-    ...historyOldestToNewest.slice().reverse()
-  ]
+  return {
+    message: new ToolMessage({ tool_call_id: call.id ?? call.name, content: redactor.redact(result) }),
+    invocation
+  }
+}
+
+/**
+ * Render retrieved knowledge-base chunks as a system-prompt block. With no
+ * matches we tell the model so, rather than letting it invent a policy.
+ */
+function formatContext(chunks: RetrievedChunk[]) {
+  if (chunks.length === 0) {
+    return `Store Policies:
+No stored policy matched this question. If you can't answer from the conversation, say you're not sure and suggest contacting support.`
+  }
+  return `Store Policies (answer from these; don't invent policies):\n\n${chunks.map((c) => c.text).join('\n\n---\n\n')}`
+}
+
+/**
+ * The rolling summary of turns that no longer fit in the prompt (see
+ * conversationMemory.ts), placed ahead of the recent turns.
+ */
+function formatSummary(summary: string) {
+  return `Earlier in this conversation (summary):\n${summary}`
+}
+
+/**
+ * Trim history to the token budget and compose the LangChain message list
+ * (one system preamble + alternating human/AI turns). historyTurns is how many
+ * of the given history turns made it into the prompt. Personal data in the
+ * customer's words (message, history, summary) is swapped for the redactor's
+ * placeholders.
+ *
+ * The store supplies the persona (its system_prompt, or the default one) and
+ * the model whose context window applies. The prompt may use LLM_MAX_CONTEXT_TOKENS, or whatever the model's context
+ * window leaves after reserving LLM_MAX_COMPLETION_TOKENS for the reply if
+ * that is less. The system prompt, retrieved policies, summary, tool
+ * definitions and the new message always go in; history gets the rest.
+ */
+function buildMessages(
+  store: StoreRow,
+  historyOldestToNewest: HistoryTurn[],
+  userMessage: string,
+  context: RetrievedChunk[],
+  redactor: Redactor,
+  summary?: string | null
+) {
+  const system = new SystemMessage(
+    [store.system_prompt ?? defaultPersona(store.name), AGENT_RULES, formatContext(context), ...(summary ? [formatSummary(redactor.redact(summary))] : [])].join('\n\n')
+  )
+  const question = new HumanMessage(redactor.redact(userMessage))
 
-  // Reserve a bit for overhead; keep it simple and configurable.
-  const budget = Math.max(1, env.LLM_MAX_CONTEXT_TOKENS)
+  const promptBudget = Math.min(
+    env.LLM_MAX_CONTEXT_TOKENS,
+    getModelSpec(storeModel(store)).contextWindow - env.LLM_MAX_COMPLETION_TOKENS
+  )
+  const fixedTokens = countMessageTokens([system, question]) + countToolDefinitionTokens()
+  if (fixedTokens > promptBudget) {
+    log('warn', 'llm.prompt.over_budget', { fixedTokens, promptBudget })
+  }
 
-  const { selectedNewestToOldest } = takeRecentWithinTokenBudget({
-    maxTokens: budget,
-    newestToOldest
+  // Walk history newest->oldest so the most recent turns win when it doesn't all fit.
+  const { selectedNewestToOldest, usedTokens } = takeRecentWithinTokenBudget({
+    maxTokens: Math.max(0, promptBudget - fixedTokens),
+    newestToOldest: historyOldestToNewest
+      .slice()
+      .reverse()
+      .map((m) => ({ ...m, content: redactor.redact(m.content) }))
   })
 
   const selectedOldestToNewest = selectedNewestToOldest.slice().reverse()
 
-  // Compose LangChain message objects: one system preamble + alternating human/AI turns.
-  const lcMessages = [
-    new SystemMessage(`${SYSTEM_PROMPT}\n\n${FAQ_SEED}`),
+  const messages: BaseMessage[] = [
+    system,
     ...selectedOldestToNewest.map((m) => {
       if (m.role === 'user') return new HumanMessage(m.content)
       return new AIMessage(m.content)
-    })
+    }),
+    question
   ]
 
-  const res = await model.invoke(lcMessages)
-  const text = (res.content ?? '').toString().trim()
+  return { messages, historyTurns: selectedNewestToOldest.length, promptTokens: fixedTokens + usedTokens }
+}
 
-  return text || "I'm sorry - I couldn't generate a response right now."
+/**
+ * Ask the LLM for a support reply, given a conversation history and the new user message.
+ *
+ * history: array of chat turns (oldest -> newest), consisting only of role/content.
+ * userMessage: the latest user input to answer.
+ *
+ * The model may call tools (e.g. order lookup) before answering; each round's
+ * tool results are fed back until it replies with text. The store decides the
+ * persona, model and which knowledge base is searched. Pass conversationId so
+ * tools that act on the conversation (return requests) know which one, and
+ * summary to carry the gist of turns that are no longer in history.
+ *
+ * Returns the reply text plus the ids of the knowledge-base chunks that were
+ * injected into the prompt, so callers can record what grounded the answer.
+ * handoff is true when the model asked for a human to take over; toolCalls
+ * lists every tool invocation made along the way. historyTurns is how many
+ * history turns fit in the prompt, and usage the tokens spent across all
+ * rounds (with their cost, when the model's prices are known).
+ *
+ * The model never sees the customer's personal data, only placeholders for it
+ * (see services/redaction.ts); the reply and tool arguments get the real
+ * values back.
+ */
+export async function generateSupportReply(
+  historyOldestToNewest: HistoryTurn[],
+  userMessage: string,
+  opts: { store: StoreRow; conversationId?: string; summary?: string | null }
+) {
+  const modelName = storeModel(opts.store)
+  const model = createChatModel(modelName)
+  const context = await retrieveContext(opts.store.id, userMessage)
+  const redactor = createRedactor()
+  const { messages: lcMessages, historyTurns } = buildMessages(
+    opts.store,
+    historyOldestToNewest,
+    userMessage,
+    context,
+    redactor,
+    opts.summary
+  )
+  const toolCalls: ToolInvocation[] = []
+  const usage = createUsageMeter(modelName)
+
+  for (let round = 0; ; round++) {
+    const startedAt = Date.now()
+    const res = await modelForRound(model, round).invoke(lcMessages)
+    usage.add({
+      prompt: lcMessages,
+      response: res,
+      latencyMs: Date.now() - startedAt,
+      extraPromptTokens: countToolDefinitionTokens()
+    })
+
+    if (res.tool_calls?.length && round < MAX_TOOL_ROUNDS) {
+      lcMessages.push(res)
+      for (const call of res.tool_calls) {
+        const { message, invocation } = await runToolCall(call, { conversationId: opts.conversationId, storeId: opts.store.id }, redactor)
+        lcMessages.push(message)
+        toolCalls.push(invocation)
+      }
+      continue
+    }
+
+    const { text, handoff } = stripHandoffMarker((res.content ?? '').toString().trim())
+    return {
+      text: redactor.restore(text) || FALLBACK_REPLY,
+      sourceChunkIds: context.map((c) => c.id),
+      handoff,
+      toolCalls,
+      historyTurns,
+      usage: usage.total()
+    }
+  }
+}
+
+/**
+ * Streaming variant of generateSupportReply. Retrieval happens up front, so
+ * sourceChunkIds is known immediately; deltas yields text chunks as the model
+ * produces them and the caller is responsible for accumulating the full reply.
+ * Once deltas is exhausted, handoffRequested() reports whether the model asked
+ * for a human (the marker itself is never yielded), toolCalls() returns the
+ * tool invocations made and usage() the tokens spent so far, as in
+ * generateSupportReply.
+ *
+ * Pass an AbortSignal to stop generation early (e.g. when the client disconnects).
+ */
+export async function streamSupportReply(
+  historyOldestToNewest: HistoryTurn[],
+  userMessage: string,
+  opts: { store: StoreRow; signal?: AbortSignal; conversationId?: string; summary?: string | null }
+) {
+  const modelName = storeModel(opts.store)
+  const model = createChatModel(modelName)
+  const context = await retrieveContext(opts.store.id, userMessage)
+  const redactor = createRedactor()
+  const { messages: lcMessages, historyTurns } = buildMessages(
+    opts.store,
+    historyOldestToNewest,
+    userMessage,
+    context,
+    redactor,
+    opts.summary
+  )
+
+  const filter = createHandoffFilter()
+  const restorer = redactor.createRestoreStream()
+  const toolCalls: ToolInvocation[] = []
+  const usage = createUsageMeter(modelName)
+
+  async function* deltas() {
+    for (let round = 0; ; round++) {
+      const startedAt = Date.now()
+      const stream = await modelForRound(model, round).stream(lcMessages, { signal: opts.signal })
+
+      // Text is forwarded as it arrives; tool calls are only complete once the
+      // chunks are merged, so accumulate the whole message alongside.
+      let full: AIMessageChunk | undefined
+      for await (const chunk of stream) {
+        full = full ? full.concat(chunk) : chunk
+        const delta = typeof chunk.content === 'string' ? restorer.push(filter.push(chunk.content)) : ''
+        if (delta) yield delta
+      }
+      if (full) {
+        usage.add({
+          prompt: lcMessages,
+          response: full,
+          latencyMs: Date.now() - startedAt,
+          extraPromptTokens: countToolDefinitionTokens()
+        })
+      }
+
+      if (!full?.tool_calls?.length || round >= MAX_TOOL_ROUNDS) break
+
+      lcMessages.push(full)
+      for (const call of full.tool_calls) {
+        const { message, invocation } = await runToolCall(call, { conversationId: opts.conversationId, storeId: opts.store.id }, redactor)
+        lcMessages.push(message)
+        toolCalls.push(invocation)
+      }
+    }
+    const rest = restorer.push(filter.flush()) + restorer.flush()
+    if (rest) yield rest
+  }
+
+  return {
+    sourceChunkIds: context.map((c) => c.id),
+    historyTurns,
+    deltas: deltas(),
+    handoffRequested: () => filter.handoff,
+    toolCalls: () => toolCalls,
+    usage: () => usage.total()
+  }
 }
@@ -1,21 +1,68 @@
+import { getEncoding, type Tiktoken, type TiktokenEncoding } from 'js-tiktoken'
+import type { AIMessage, BaseMessage } from '@langchain/core/messages'
+import { env } from '../../env.js'
+import { getModelSpec } from './models.js'
+
+// Chat formatting overhead (OpenAI): every message is wrapped in a few role and
+// separator tokens, and the reply is primed with a few more.
+const TOKENS_PER_MESSAGE = 3
+const REPLY_PRIMING_TOKENS = 3
+
+// The BPE ranks are bundled with js-tiktoken but take a moment to load, so
+// each encoding is built on first use and kept.
+const encoders = new Map<TiktokenEncoding, Tiktoken>()
+
+function encoderFor(model: string) {
+  const { encoding } = getModelSpec(model)
+  let encoder = encoders.get(encoding)
+  if (!encoder) {
+    encoder = getEncoding(encoding)
+    encoders.set(encoding, encoder)
+  }
+  return encoder
+}
+
+/** Count the tokens in a piece of text with the model's tokenizer. */
+export function countTokens(text: string, model: string = env.LLM_MODEL) {
+  if (!text) return 0
+  return encoderFor(model).encode(text).length
+}
+
+/**
+ * Count one message's content plus any tool calls it makes (for a model
+ * reply, this is its completion size).
+ */
+export function countContentTokens(message: BaseMessage, model: string = env.LLM_MODEL) {
+  let total = countTokens(message.text, model)
+  // Chunks merged from a stream aren't AIMessage instances, so go by type
+  const toolCalls = message.type === 'ai' ? (message as AIMessage).tool_calls : undefined
+  if (toolCalls?.length) {
+    total += countTokens(JSON.stringify(toolCalls.map((c) => ({ name: c.name, args: c.args }))), model)
+  }
+  return total
+}
+
+/** Count a whole prompt as the provider would, framing included. */
+export function countMessageTokens(messages: BaseMessage[], model: string = env.LLM_MODEL) {
+  let total = REPLY_PRIMING_TOKENS
+  for (const m of messages) total += TOKENS_PER_MESSAGE + countContentTokens(m, model)
+  return total
+}
+
 /**
- * Pick as many recent messages as will fit within a rough token budget.
- *
- * This uses a simple heuristic (~4 chars per token) which is good enough
- * for short support chats. If needed later, we can swap in a proper
- * tokenizer without changing callers.
+ * Pick as many recent messages as will fit within a token budget, counting
+ * each message's content and framing with the model's tokenizer.
  */
 export function takeRecentWithinTokenBudget(args: {
   maxTokens: number
   newestToOldest: Array<{ role: 'user' | 'ai'; content: string }>
+  model?: string
 }) {
   const selected: Array<{ role: 'user' | 'ai'; content: string }> = []
   let used = 0
 
   for (const m of args.newestToOldest) {
-    // simple heuristic: ~4 chars per token for English.
-    // can introduce token counting library in future
-    const tokens = Math.ceil(m.content.length / 4)
+    const tokens = TOKENS_PER_MESSAGE + countTokens(m.content, args.model)
     if (used + tokens > args.maxTokens) break
     selected.push(m)
     used += tokens
@@ -0,0 +1,58 @@
+import { tool } from '@langchain/core/tools'
+import { z } from 'zod'
+import { getLatestReturnForOrder, type ReturnRequestRow } from '../../../repos/returnRepo.js'
+import { findCustomerOrder } from '../../returns.js'
+import type { Order } from '../../orders/types.js'
+
+// Same answer for "no such order" and "wrong email", so the tool can't be
+// used to probe which order numbers exist.
+const NOT_FOUND = JSON.stringify({
+  found: false,
+  message: 'No order matches that order number and email. Ask the customer to double-check both.'
+})
+
+function toToolResult(order: Order, returnRequest: ReturnRequestRow | null) {
+  return JSON.stringify({
+    found: true,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    items: order.items.map((i) => ({ sku: i.sku, name: i.name, quantity: i.quantity })),
+    placedAt: order.placedAt,
+    shippedAt: order.shippedAt,
+    deliveredAt: order.deliveredAt,
+    carrier: order.carrier,
+    trackingNumber: order.trackingNumber,
+    estimatedDelivery: order.estimatedDelivery,
+    returnRequest: returnRequest && {
+      status: returnRequest.status,
+      items: returnRequest.items.map((i) => `${i.quantity} x ${i.name}`),
+      note: returnRequest.decision_note,
+      requestedAt: returnRequest.created_at
+    }
+  })
+}
+
+/**
+ * Look up an order's status. Details are only returned for orders of the
+ * chat's store (configurable.storeId) whose email matches the one given, so a
+ * customer must supply both before anything about the order is revealed.
+ */
+export const orderStatusTool = tool(
+  async ({ orderNumber, email }, config) => {
+    const storeId = config?.configurable?.storeId as string | undefined
+    if (!storeId) return NOT_FOUND
+
+    const order = await findCustomerOrder(storeId, orderNumber, email)
+    if (!order || order.storeId !== storeId) return NOT_FOUND
+    return toToolResult(order, await getLatestReturnForOrder(storeId, order.orderNumber))
+  },
+  {
+    name: 'get_order_status',
+    description:
+      "Look up the status, items, tracking and any return request of a customer's order. Requires both the order number and the email address used at checkout; only call it once the customer has given you both.",
+    schema: z.object({
+      orderNumber: z.string().min(1).describe('Order number as shown in the confirmation email, e.g. SP-1001'),
+      email: z.string().min(3).describe('Email address the order was placed with')
+    })
+  }
+)
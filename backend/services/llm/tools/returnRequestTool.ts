@@ -0,0 +1,48 @@
+import { tool } from '@langchain/core/tools'
+import { z } from 'zod'
+import { requestReturn } from '../../returns.js'
+
+/**
+ * File a return request for a delivered order. The conversation and store it
+ * belongs to come from the run config (configurable.conversationId and
+ * storeId), never from the model, so a request is always tied to the chat that
+ * created it and can only cover that store's orders.
+ */
+export const returnRequestTool = tool(
+  async ({ orderNumber, email, items, reason }, config) => {
+    const conversationId = config?.configurable?.conversationId as string | undefined
+    const storeId = config?.configurable?.storeId as string | undefined
+    if (!conversationId || !storeId) {
+      return JSON.stringify({ created: false, reason: 'Return requests can only be made from a chat conversation.' })
+    }
+
+    const result = await requestReturn({ storeId, conversationId, orderNumber, email, items, reason })
+    if (!result.ok) return JSON.stringify({ created: false, reason: result.reason })
+
+    return JSON.stringify({
+      created: true,
+      returnId: result.request.id,
+      orderNumber: result.request.order_number,
+      items: result.request.items.map((i) => `${i.quantity} x ${i.name}`),
+      status: result.request.status
+    })
+  },
+  {
+    name: 'create_return_request',
+    description:
+      'File a return request for items from a delivered order. Only call it once the customer has confirmed the order number, checkout email, which items (by SKU, from get_order_status) and quantities they want to return, and the reason.',
+    schema: z.object({
+      orderNumber: z.string().min(1).describe('Order number, e.g. SP-1003'),
+      email: z.string().min(3).describe('Email address the order was placed with'),
+      items: z
+        .array(
+          z.object({
+            sku: z.string().min(1).describe('SKU of the item, as returned by get_order_status'),
+            quantity: z.number().int().positive()
+          })
+        )
+        .min(1),
+      reason: z.string().min(1).max(500).describe("The customer's reason for the return, in their words")
+    })
+  }
+)
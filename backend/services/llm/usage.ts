@@ -0,0 +1,50 @@
+import type { AIMessage, AIMessageChunk, BaseMessage } from '@langchain/core/messages'
+import { env } from '../../env.js'
+import { estimateCostUsd } from './models.js'
+import { countContentTokens, countMessageTokens } from './tokenBudget.js'
+
+/**
+ * Tokens spent on one reply or summary (every model round included), the time
+ * spent waiting on the model, and the estimated cost when prices are known.
+ */
+export type LlmUsage = {
+  model: string
+  promptTokens: number
+  completionTokens: number
+  costUsd: number | null
+  latencyMs: number
+}
+
+/**
+ * Running usage total across the model rounds of one reply. Providers that
+ * report usage are taken at their word; otherwise both sides are counted with
+ * the tokenizer, plus extraPromptTokens for anything sent outside the message
+ * list (tool definitions).
+ */
+export function createUsageMeter(model: string = env.LLM_MODEL) {
+  let promptTokens = 0
+  let completionTokens = 0
+  let latencyMs = 0
+  return {
+    add(round: {
+      prompt: BaseMessage[]
+      response: AIMessage | AIMessageChunk
+      latencyMs: number
+      extraPromptTokens?: number
+    }) {
+      const reported = round.response.usage_metadata
+      promptTokens += reported?.input_tokens ?? countMessageTokens(round.prompt, model) + (round.extraPromptTokens ?? 0)
+      completionTokens += reported?.output_tokens ?? countContentTokens(round.response, model)
+      latencyMs += round.latencyMs
+    },
+    total(): LlmUsage {
+      return {
+        model,
+        promptTokens,
+        completionTokens,
+        costUsd: estimateCostUsd(model, promptTokens, completionTokens),
+        latencyMs
+      }
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import path from 'node:path'
+import { env } from '../env.js'
+import { log } from '../logger.js'
+
+export type MailMessage = {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Outgoing email. Only the local stub exists for now; a real provider
+ * (SMTP, SES, ...) would implement the same interface.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+/**
+ * Local mail stub: appends each email to MAIL_OUTBOX_FILE so developers can
+ * read verification codes without a mail server.
+ */
+class FileMailer implements Mailer {
+  constructor(private file: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(path.dirname(this.file), { recursive: true })
+    const entry = `--- ${new Date().toISOString()}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n\n`
+    await appendFile(this.file, entry, 'utf8')
+    log('info', 'mail.sent', { transport: 'file', file: this.file, subject: message.subject })
+  }
+}
+
+let mailer: Mailer | null = null
+
+export function getMailer(): Mailer {
+  mailer ??= new FileMailer(env.MAIL_OUTBOX_FILE)
+  return mailer
+}
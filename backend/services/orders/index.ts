@@ -0,0 +1,15 @@
+import { env } from '../../env.js'
+import { JsonOrderProvider } from './jsonOrderProvider.js'
+import { PostgresOrderProvider } from './postgresOrderProvider.js'
+import type { OrderProvider } from './types.js'
+
+let provider: OrderProvider | null = null
+
+/**
+ * The order source selected by ORDER_PROVIDER, created on first use.
+ */
+export function getOrderProvider(): OrderProvider {
+  if (provider) return provider
+  provider = env.ORDER_PROVIDER === 'postgres' ? new PostgresOrderProvider() : new JsonOrderProvider(env.ORDER_FIXTURE)
+  return provider
+}
@@ -0,0 +1,37 @@
+import { readFileSync } from 'node:fs'
+import { z } from 'zod'
+import { DEFAULT_STORE_ID } from '../../repos/storeRepo.js'
+import type { Order, OrderProvider } from './types.js'
+
+const orderSchema = z.object({
+  storeId: z.string().uuid().default(DEFAULT_STORE_ID),
+  orderNumber: z.string().min(1),
+  email: z.string().email(),
+  status: z.enum(['processing', 'shipped', 'out_for_delivery', 'delivered', 'cancelled']),
+  items: z.array(z.object({ sku: z.string(), name: z.string(), quantity: z.number().int().positive() })),
+  placedAt: z.string(),
+  shippedAt: z.string().nullable().default(null),
+  deliveredAt: z.string().nullable().default(null),
+  carrier: z.string().nullable().default(null),
+  trackingNumber: z.string().nullable().default(null),
+  estimatedDelivery: z.string().nullable().default(null)
+})
+
+/**
+ * Orders from a JSON fixture file (an array of orders), for local development
+ * and CI. The file is read once, when the provider is created. Orders without
+ * a storeId belong to the default store.
+ */
+export class JsonOrderProvider implements OrderProvider {
+  private orders: Map<string, Order>
+
+  constructor(path: string) {
+    const raw = JSON.parse(readFileSync(path, 'utf8'))
+    const orders = z.array(orderSchema).parse(raw)
+    this.orders = new Map(orders.map((o) => [`${o.storeId}:${o.orderNumber.toUpperCase()}`, o]))
+  }
+
+  async findOrder(storeId: string, orderNumber: string) {
+    return this.orders.get(`${storeId}:${orderNumber.trim().toUpperCase()}`) ?? null
+  }
+}
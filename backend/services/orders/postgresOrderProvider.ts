@@ -0,0 +1,51 @@
+import { pool } from '../../db/pool.js'
+import { sql } from '../../db/sql.js'
+import type { Order, OrderItem, OrderProvider } from './types.js'
+
+type OrderRow = {
+  store_id: string
+  order_number: string
+  email: string
+  status: Order['status']
+  items: OrderItem[]
+  placed_at: Date
+  shipped_at: Date | null
+  delivered_at: Date | null
+  carrier: string | null
+  tracking_number: string | null
+  estimated_delivery: string | null
+}
+
+const iso = (d: Date | null) => (d ? d.toISOString() : null)
+
+/**
+ * Orders from the local `orders` table (see db/migrations), e.g. synced from the
+ * store platform by a separate job.
+ */
+export class PostgresOrderProvider implements OrderProvider {
+  async findOrder(storeId: string, orderNumber: string) {
+    const q = sql`
+      SELECT store_id, order_number, email, status, items, placed_at, shipped_at, delivered_at,
+        carrier, tracking_number, estimated_delivery::text
+      FROM orders
+      WHERE store_id = ${storeId}::uuid AND upper(order_number) = upper(${orderNumber.trim()})
+    `
+    const res = await pool.query<OrderRow>(q.text, q.values)
+    const row = res.rows[0]
+    if (!row) return null
+
+    return {
+      storeId: row.store_id,
+      orderNumber: row.order_number,
+      email: row.email,
+      status: row.status,
+      items: row.items,
+      placedAt: row.placed_at.toISOString(),
+      shippedAt: iso(row.shipped_at),
+      deliveredAt: iso(row.delivered_at),
+      carrier: row.carrier,
+      trackingNumber: row.tracking_number,
+      estimatedDelivery: row.estimated_delivery
+    } satisfies Order
+  }
+}
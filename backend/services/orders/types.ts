@@ -0,0 +1,29 @@
+export type OrderItem = {
+  sku: string
+  name: string
+  quantity: number
+}
+
+export type Order = {
+  // The store the order was placed in
+  storeId: string
+  orderNumber: string
+  email: string
+  status: 'processing' | 'shipped' | 'out_for_delivery' | 'delivered' | 'cancelled'
+  items: OrderItem[]
+  placedAt: string
+  shippedAt: string | null
+  deliveredAt: string | null
+  carrier: string | null
+  trackingNumber: string | null
+  estimatedDelivery: string | null
+}
+
+/**
+ * Source of order data for the support agent's tools. Implementations only
+ * look orders up, within one store; checking the customer's email is the
+ * caller's job.
+ */
+export interface OrderProvider {
+  findOrder(storeId: string, orderNumber: string): Promise<Order | null>
+}
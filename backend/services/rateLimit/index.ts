@@ -0,0 +1,36 @@
+import { env } from '../../env.js'
+import { log } from '../../logger.js'
+import { MemoryRateLimitStore } from './memoryRateLimitStore.js'
+import { PostgresRateLimitStore } from './postgresRateLimitStore.js'
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from './types.js'
+
+export type { RateLimitResult, RateLimitRule } from './types.js'
+
+let store: RateLimitStore | null = null
+
+/**
+ * The bucket store selected by RATE_LIMIT_STORE, created on first use.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store
+  store = env.RATE_LIMIT_STORE === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore()
+  return store
+}
+
+/**
+ * Take one request from every rule's bucket, or from none of them if any
+ * refuses; results line up with rules. If the store is unreachable the
+ * request is let through (and logged): a database hiccup shouldn't lock every
+ * visitor out of the chat.
+ */
+export async function allowRequest(rules: RateLimitRule[]): Promise<RateLimitResult[]> {
+  try {
+    return await getRateLimitStore().take(rules)
+  } catch (err) {
+    log('warn', 'rate_limit.store_failed', {
+      keys: rules.map((rule) => rule.key),
+      error: err instanceof Error ? err.message : String(err)
+    })
+    return rules.map((rule) => ({ allowed: true, limit: rule.max, remaining: rule.max, resetMs: 0 }))
+  }
+}
@@ -0,0 +1,34 @@
+import { takeTokens, type BucketState } from './tokenBucket.js'
+import type { RateLimitRule, RateLimitStore } from './types.js'
+
+type Entry = BucketState & { expiresAt: number }
+
+const SWEEP_INTERVAL_MS = 60_000
+
+/**
+ * Process-local buckets. Fast and dependency-free, but each instance counts
+ * on its own and everything resets on restart; use the Postgres store when
+ * running more than one instance. now is injectable so refills can be driven
+ * by a fake clock.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, Entry>()
+
+  constructor(private readonly now: () => number = Date.now) {
+    // Drop buckets that have refilled completely so idle keys don't pile up
+    setInterval(() => this.sweep(this.now()), SWEEP_INTERVAL_MS).unref()
+  }
+
+  async take(rules: RateLimitRule[]) {
+    const now = this.now()
+    const takes = takeTokens(rules.map((rule) => this.buckets.get(rule.key) ?? null), rules, now)
+    rules.forEach((rule, i) => this.buckets.set(rule.key, { ...takes[i]!.next, expiresAt: takes[i]!.expiresAt }))
+    return takes.map((t) => t.result)
+  }
+
+  sweep(now: number) {
+    for (const [key, entry] of this.buckets) {
+      if (entry.expiresAt <= now) this.buckets.delete(key)
+    }
+  }
+}
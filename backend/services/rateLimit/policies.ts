@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs'
+import { BlockList, isIPv4 } from 'node:net'
+import { z } from 'zod'
+import { env } from '../../env.js'
+
+/**
+ * What a limit counts against: the visitor's session, the client IP, the
+ * verified customer (across their devices) or everyone at once. A limit whose
+ * scope doesn't apply to a request (no session, no verified customer) is
+ * skipped for it.
+ */
+export type RateLimitScope = 'session' | 'ip' | 'customer' | 'global'
+
+const limitSchema = z.object({
+  scope: z.enum(['session', 'ip', 'customer', 'global']),
+  max: z.number().int().positive(),
+  windowMs: z.number().int().positive()
+})
+
+const policySchema = z.object({
+  // Shown to the client with the 429
+  error: z.string().min(1),
+  // Every applicable limit must allow the request
+  limits: z.array(limitSchema).min(1)
+})
+
+export type RateLimitPolicy = z.infer<typeof policySchema>
+
+/**
+ * Named policies, one per group of routes. RATE_LIMIT_POLICY_FILE can replace
+ * any of them; the rest keep these defaults.
+ * - message:          POST /chat/message and /chat/message/stream (LLM cost protection)
+ * - history:          history, subscribe and conversation-list reads (loose, for scrolling)
+ * - session_create:   POST /chat/session when a new session is issued
+ * - session_identify: POST /chat/session/identify (each call emails a code)
+ */
+const DEFAULT_POLICIES = {
+  message: {
+    error: 'The system is overloaded. Please wait a moment before sending more messages.',
+    limits: [
+      { scope: 'session', max: 5, windowMs: 10_000 },
+      { scope: 'ip', max: 20, windowMs: 60_000 }
+    ]
+  },
+  history: {
+    error: 'The system is overloaded. Please try again shortly.',
+    limits: [{ scope: 'ip', max: 120, windowMs: 60_000 }]
+  },
+  session_create: {
+    error: 'Too many new sessions. Please try again shortly.',
+    limits: [{ scope: 'ip', max: 20, windowMs: 60_000 }]
+  },
+  session_identify: {
+    error: 'Too many codes requested. Please wait a few minutes.',
+    limits: [{ scope: 'session', max: 5, windowMs: 15 * 60_000 }]
+  }
+} satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitPolicyName = keyof typeof DEFAULT_POLICIES
+
+const policyFileSchema = z
+  .object({
+    message: policySchema,
+    history: policySchema,
+    session_create: policySchema,
+    session_identify: policySchema
+  })
+  .partial()
+  .strict()
+
+// Read at startup so a broken policy file stops the server instead of failing requests
+const policies: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  ...DEFAULT_POLICIES,
+  ...(env.RATE_LIMIT_POLICY_FILE
+    ? policyFileSchema.parse(JSON.parse(readFileSync(env.RATE_LIMIT_POLICY_FILE, 'utf8')))
+    : {})
+}
+
+/** The effective policy for a route group: the default, or its override from RATE_LIMIT_POLICY_FILE. */
+export function getRateLimitPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  return policies[name]
+}
+
+const allowList = new BlockList()
+for (const entry of env.RATE_LIMIT_ALLOWLIST) {
+  const [address, prefix] = entry.split('/')
+  const type = isIPv4(address) ? 'ipv4' : 'ipv6'
+  if (prefix) allowList.addSubnet(address, Number(prefix), type)
+  else allowList.addAddress(address, type)
+}
+
+/**
+ * Whether an IP is on RATE_LIMIT_ALLOWLIST. Allow-listed clients (health
+ * checks, the store's own backend, staff offices) skip rate limits entirely.
+ */
+export function isAllowListed(ip: string | undefined) {
+  if (!ip) return false
+  // Dual-stack servers report IPv4 clients as ::ffff:a.b.c.d
+  const plain = ip.startsWith('::ffff:') && isIPv4(ip.slice(7)) ? ip.slice(7) : ip
+  return allowList.check(plain, isIPv4(plain) ? 'ipv4' : 'ipv6')
+}
@@ -0,0 +1,81 @@
+import { pool, withTransaction } from '../../db/pool.js'
+import { sql } from '../../db/sql.js'
+import { log } from '../../logger.js'
+import { takeTokens } from './tokenBucket.js'
+import type { RateLimitRule, RateLimitStore } from './types.js'
+
+const SWEEP_INTERVAL_MS = 5 * 60_000
+
+/**
+ * Buckets in the `rate_limit_buckets` table (see db/migrations), so limits hold
+ * across instances and restarts. Each take locks the keys' rows (in key order,
+ * so overlapping takes can't deadlock) for the length of a short transaction
+ * and uses the database clock, so instances with drifting clocks still agree.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor() {
+    setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS).unref()
+  }
+
+  async take(rules: RateLimitRule[]) {
+    const keys = rules.map((rule) => rule.key)
+    return withTransaction(async (client) => {
+      // Make sure the rows exist so concurrent first requests queue on their locks
+      for (const rule of [...rules].sort((a, b) => a.key.localeCompare(b.key))) {
+        const insert = sql`
+          INSERT INTO rate_limit_buckets (key, tokens, updated_at, expires_at)
+          VALUES (${rule.key}, ${rule.max}, clock_timestamp(), clock_timestamp())
+          ON CONFLICT (key) DO NOTHING
+        `
+        await client.query(insert.text, insert.values)
+      }
+
+      const select = sql`
+        SELECT key, tokens,
+          (extract(epoch FROM updated_at) * 1000)::float8 AS updated_at,
+          (extract(epoch FROM clock_timestamp()) * 1000)::float8 AS now
+        FROM rate_limit_buckets
+        WHERE key = ANY(${keys}::text[])
+        ORDER BY key
+        FOR UPDATE
+      `
+      const r = await client.query<{ key: string; tokens: number; updated_at: number; now: number }>(
+        select.text,
+        select.values
+      )
+      const rows = new Map(r.rows.map((row) => [row.key, row]))
+      const now = r.rows[0]!.now
+
+      const takes = takeTokens(
+        rules.map((rule) => {
+          const row = rows.get(rule.key)!
+          return { tokens: row.tokens, updatedAt: row.updated_at }
+        }),
+        rules,
+        now
+      )
+      for (const [i, rule] of rules.entries()) {
+        const { next, expiresAt } = takes[i]!
+        const update = sql`
+          UPDATE rate_limit_buckets
+          SET tokens = ${next.tokens},
+            updated_at = to_timestamp(${next.updatedAt / 1000}),
+            expires_at = to_timestamp(${expiresAt / 1000})
+          WHERE key = ${rule.key}
+        `
+        await client.query(update.text, update.values)
+      }
+      return takes.map((t) => t.result)
+    })
+  }
+
+  async sweep() {
+    try {
+      const q = sql`DELETE FROM rate_limit_buckets WHERE expires_at < clock_timestamp()`
+      const r = await pool.query(q.text, q.values)
+      if (r.rowCount) log('info', 'rate_limit.sweep', { deleted: r.rowCount })
+    } catch (err) {
+      log('warn', 'rate_limit.sweep_failed', { error: err instanceof Error ? err.message : String(err) })
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { RateLimitResult, RateLimitRule } from './types.js'
+
+/** Bucket state as stored: fractional tokens left as of updatedAt (epoch ms). */
+export type BucketState = { tokens: number; updatedAt: number }
+
+/**
+ * Refill a bucket up to now and try to spend one token (or, with spend
+ * false, only check whether one is there). Shared by every store so they all
+ * behave the same; the store only has to persist `next` atomically. A missing
+ * bucket starts full.
+ */
+export function takeToken(state: BucketState | null, rule: RateLimitRule, now: number, spend = true) {
+  const ratePerMs = rule.max / rule.windowMs
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0
+  const available = state ? Math.min(rule.max, state.tokens + elapsed * ratePerMs) : rule.max
+
+  const allowed = available >= 1
+  const tokens = allowed && spend ? available - 1 : available
+  const next: BucketState = { tokens, updatedAt: now }
+
+  const result: RateLimitResult = {
+    allowed,
+    limit: rule.max,
+    remaining: Math.floor(tokens),
+    resetMs: Math.ceil((rule.max - tokens) / ratePerMs)
+  }
+  if (!allowed) result.retryAfterMs = Math.ceil((1 - tokens) / ratePerMs)
+
+  // Once full again the bucket is indistinguishable from a new one and can be dropped
+  return { result, next, expiresAt: now + result.resetMs }
+}
+
+/**
+ * Take one token from each of a request's buckets, all or nothing: if any
+ * bucket refuses, none is spent, so a request blocked by one limit doesn't
+ * drain the others. states and rules line up by index.
+ */
+export function takeTokens(states: Array<BucketState | null>, rules: RateLimitRule[], now: number) {
+  const takes = rules.map((rule, i) => takeToken(states[i] ?? null, rule, now))
+  if (takes.every((t) => t.result.allowed)) return takes
+  return rules.map((rule, i) => takeToken(states[i] ?? null, rule, now, false))
+}
@@ -0,0 +1,33 @@
+/**
+ * One limit to check: at most `max` requests per `windowMs` for `key`.
+ * Limits are token buckets holding `max` tokens that refill continuously over
+ * the window, so a client can burst up to max and then gets a steady
+ * max-per-window rate, with no reset cliff at a window boundary.
+ */
+export type RateLimitRule = {
+  key: string
+  windowMs: number
+  max: number
+}
+
+/**
+ * Outcome of taking a token. remaining is whole tokens left after this
+ * request, resetMs how long until the bucket is full again, and
+ * retryAfterMs (only when refused) how long until the next token.
+ */
+export type RateLimitResult = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetMs: number
+  retryAfterMs?: number
+}
+
+/**
+ * Where bucket state lives. take() spends one token from every rule's bucket
+ * only if all of them have one (see takeTokens), and must be atomic across
+ * the keys so concurrent requests can't both spend the last token.
+ */
+export interface RateLimitStore {
+  take(rules: RateLimitRule[]): Promise<RateLimitResult[]>
+}
@@ -0,0 +1,200 @@
+/**
+ * Detection and masking of personal data (emails, phone numbers, card numbers
+ * and street addresses) in free text.
+ *
+ * Messages are stored as written; the masking happens on the way out:
+ * - maskPii for log lines (irreversible, only the kind is kept)
+ * - createRedactor for LLM prompts (numbered placeholders the model can refer
+ *   to, swapped back for the real values in its reply and tool arguments)
+ */
+
+export type PiiKind = 'email' | 'phone' | 'card' | 'address'
+
+type PiiMatch = { kind: PiiKind; start: number; end: number; value: string }
+
+// Earlier kinds win where matches overlap (a card number also looks like a phone number)
+const PATTERNS: Array<[PiiKind, RegExp]> = [
+  ['email', /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi],
+  ['card', /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g],
+  ['phone', /(?<![\w+-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?![\w-])/g],
+  [
+    'address',
+    /\b\d{1,5}[A-Z]?\s+(?:[A-Z][\w'-]*\s+){1,4}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|terrace|close|crescent|square|sq)\b\.?/gi
+  ]
+]
+
+// Fewer digits than this is more likely a quantity, date or order number than a phone number;
+// more than E.164 allows isn't a phone number either
+const MIN_PHONE_DIGITS = 9
+const MAX_PHONE_DIGITS = 15
+
+// "order number 100234567", "ref: 100234567", "#100234567": a bare digit run after wording like this is an id
+const ID_CONTEXT = /(?:\b(?:order|ref|reference|invoice|tracking|confirmation|ticket|case)(?:\s+(?:number|no\.?|id))?\s*[:#]?|#)\s*$/i
+// How far back to look for that wording
+const ID_CONTEXT_LENGTH = 30
+
+function digitsOf(value: string) {
+  return value.replace(/\D/g, '')
+}
+
+/** Luhn checksum, so long numbers that aren't card numbers (tracking numbers, ids) are left alone. */
+function passesLuhn(digits: string) {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return sum % 10 === 0
+}
+
+function isPlausible(kind: PiiKind, value: string, before: string) {
+  switch (kind) {
+    case 'card':
+      return passesLuhn(digitsOf(value))
+    case 'phone': {
+      const digits = digitsOf(value)
+      if (digits.length < MIN_PHONE_DIGITS || digits.length > MAX_PHONE_DIGITS) return false
+      // Written with separators or a country code it's a phone number whatever precedes it
+      return digits !== value || !ID_CONTEXT.test(before.slice(-ID_CONTEXT_LENGTH))
+    }
+    default:
+      return true
+  }
+}
+
+/** Personal data found in text, in order of appearance and never overlapping. */
+export function detectPii(text: string): PiiMatch[] {
+  const found: PiiMatch[] = []
+  for (const [kind, re] of PATTERNS) {
+    for (const m of text.matchAll(re)) {
+      const start = m.index ?? 0
+      const end = start + m[0].length
+      if (!isPlausible(kind, m[0], text.slice(0, start))) continue
+      if (found.some((f) => start < f.end && end > f.start)) continue
+      found.push({ kind, start, end, value: m[0] })
+    }
+  }
+  return found.sort((a, b) => a.start - b.start)
+}
+
+export function containsPii(text: string) {
+  return detectPii(text).length > 0
+}
+
+function replaceMatches(text: string, matches: PiiMatch[], replacement: (m: PiiMatch) => string) {
+  let out = ''
+  let at = 0
+  for (const m of matches) {
+    out += text.slice(at, m.start) + replacement(m)
+    at = m.end
+  }
+  return out + text.slice(at)
+}
+
+/** Replace personal data with its kind, e.g. "[email]", for log lines. */
+export function maskPii(text: string) {
+  return replaceMatches(text, detectPii(text), (m) => `[${m.kind}]`)
+}
+
+// Query parameters that carry credentials rather than personal data
+const SECRET_PARAMS = new Set(['token'])
+
+/**
+ * A request's query string for the request log: credentials become
+ * "[redacted]" and personal data in every other value is masked as in maskPii
+ * (e.g. ?email= on the privacy export, ?q= in the operator inbox search).
+ */
+export function maskQuery(query: Record<string, unknown>): Record<string, unknown> {
+  const mask = (v: unknown): unknown => {
+    if (typeof v === 'string') return maskPii(v)
+    if (Array.isArray(v)) return v.map(mask)
+    if (v && typeof v === 'object') return maskQuery(v as Record<string, unknown>)
+    return v
+  }
+  return Object.fromEntries(
+    Object.entries(query).map(([k, v]) => [k, SECRET_PARAMS.has(k) ? '[redacted]' : mask(v)])
+  )
+}
+
+// [EMAIL_1], [PHONE_2], ...
+const PLACEHOLDER = /\[(EMAIL|PHONE|CARD|ADDRESS)_(\d+)\]/g
+// Longest a partial placeholder can be while still incomplete, e.g. "[ADDRESS_99"
+const MAX_PLACEHOLDER_LENGTH = 16
+
+/**
+ * Reversible redaction for one LLM exchange. redact swaps personal data for
+ * numbered placeholders, reusing the same placeholder for the same value so
+ * the model can tell them apart; restore puts the values back. Placeholders
+ * the redactor didn't issue are left as they are.
+ */
+export function createRedactor() {
+  const placeholderByValue = new Map<string, string>()
+  const valueByPlaceholder = new Map<string, string>()
+  const counts: Record<PiiKind, number> = { email: 0, phone: 0, card: 0, address: 0 }
+
+  function placeholderFor(m: PiiMatch) {
+    const key = `${m.kind}:${m.kind === 'email' ? m.value.toLowerCase() : m.value}`
+    let placeholder = placeholderByValue.get(key)
+    if (!placeholder) {
+      placeholder = `[${m.kind.toUpperCase()}_${++counts[m.kind]}]`
+      placeholderByValue.set(key, placeholder)
+      valueByPlaceholder.set(placeholder, m.value)
+    }
+    return placeholder
+  }
+
+  function restore(text: string) {
+    return text.replace(PLACEHOLDER, (placeholder) => valueByPlaceholder.get(placeholder) ?? placeholder)
+  }
+
+  return {
+    redact(text: string) {
+      return replaceMatches(text, detectPii(text), placeholderFor)
+    },
+    restore,
+    /** Restore placeholders in every string of a tool call's arguments. */
+    restoreArgs(args: Record<string, unknown>): Record<string, unknown> {
+      const walk = (v: unknown): unknown => {
+        if (typeof v === 'string') return restore(v)
+        if (Array.isArray(v)) return v.map(walk)
+        if (v && typeof v === 'object') return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, walk(x)]))
+        return v
+      }
+      return walk(args) as Record<string, unknown>
+    },
+    /**
+     * Streaming counterpart of restore. Text that could be the start of a
+     * placeholder is held back until it's complete, so the customer never
+     * sees a partial "[EMA".
+     */
+    createRestoreStream() {
+      let pending = ''
+      return {
+        /** Feed a delta; returns the text that is safe to emit now. */
+        push(delta: string) {
+          pending += delta
+          const open = pending.lastIndexOf('[')
+          const hold =
+            open >= 0 && pending.length - open < MAX_PLACEHOLDER_LENGTH && /^\[[A-Z]*_?\d*$/.test(pending.slice(open))
+              ? pending.length - open
+              : 0
+          const out = restore(pending.slice(0, pending.length - hold))
+          pending = pending.slice(pending.length - hold)
+          return out
+        },
+        /** Flush whatever is left once the stream ends. */
+        flush() {
+          const out = restore(pending)
+          pending = ''
+          return out
+        }
+      }
+    }
+  }
+}
+
+export type Redactor = ReturnType<typeof createRedactor>
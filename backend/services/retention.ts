@@ -0,0 +1,50 @@
+import { env } from '../env.js'
+import { log } from '../logger.js'
+import { deleteOrphanedCustomers, eraseInactiveConversations } from '../repos/privacyRepo.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BATCH_SIZE = 100
+
+/**
+ * Apply the retention policy once: every conversation idle for more than
+ * RETENTION_DAYS is deleted or anonymized (RETENTION_MODE), in batches, and
+ * customers left with no conversations are removed.
+ */
+export async function runRetentionSweep(now = new Date()) {
+  const inactiveSince = new Date(now.getTime() - env.RETENTION_DAYS * DAY_MS)
+  const action = env.RETENTION_MODE === 'delete' ? 'deleted' : 'anonymized'
+  const startedAt = Date.now()
+
+  let erased = 0
+  for (;;) {
+    const n = await eraseInactiveConversations({ action, inactiveSince, limit: BATCH_SIZE })
+    erased += n
+    if (n < BATCH_SIZE) break
+  }
+  const customersDeleted = await deleteOrphanedCustomers(inactiveSince)
+
+  log('info', 'retention.sweep', {
+    action,
+    inactiveSince: inactiveSince.toISOString(),
+    conversations: erased,
+    customersDeleted,
+    durationMs: Date.now() - startedAt
+  })
+  return { erased, customersDeleted }
+}
+
+/**
+ * Run the retention sweep now and then every RETENTION_INTERVAL_MINUTES.
+ * Does nothing when RETENTION_DAYS is 0. Safe with several instances: each
+ * batch skips conversations another instance is already erasing.
+ */
+export function startRetentionJob() {
+  if (env.RETENTION_DAYS === 0) return
+
+  const run = () =>
+    void runRetentionSweep().catch((err) => {
+      log('error', 'retention.sweep_failed', { error: err instanceof Error ? err.message : String(err) })
+    })
+  run()
+  setInterval(run, env.RETENTION_INTERVAL_MINUTES * 60_000).unref()
+}
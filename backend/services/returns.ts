@@ -0,0 +1,167 @@
+import { withTransaction } from '../db/pool.js'
+import { insertMessage } from '../repos/chatRepo.js'
+import {
+  createReturnRequest,
+  getLatestReturnForOrder,
+  transitionReturnRequest,
+  type ReturnItem,
+  type ReturnRequestRow,
+  type ReturnStatus
+} from '../repos/returnRepo.js'
+import { publishChatEvent } from './chatEvents.js'
+import { getOrderProvider } from './orders/index.js'
+import type { Order } from './orders/types.js'
+
+/** Matches the returns policy in the knowledge base (services/llm/faq.ts). */
+export const RETURN_WINDOW_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const NO_MATCH = 'No order matches that order number and email.'
+
+export type ReturnDecision = 'approve' | 'reject' | 'refund'
+
+const DECISIONS: Record<ReturnDecision, { from: ReturnStatus[]; to: ReturnStatus }> = {
+  approve: { from: ['requested'], to: 'approved' },
+  reject: { from: ['requested'], to: 'rejected' },
+  refund: { from: ['approved'], to: 'refunded' }
+}
+
+/**
+ * Look an order up for a customer of the given store, returning null unless
+ * the order belongs to that store and the email matches.
+ */
+export async function findCustomerOrder(storeId: string, orderNumber: string, email: string) {
+  const order = await getOrderProvider().findOrder(storeId, orderNumber)
+  if (!order || order.storeId !== storeId) return null
+  if (order.email.trim().toLowerCase() !== email.trim().toLowerCase()) return null
+  return order
+}
+
+/**
+ * Check a requested return against the order, the store it's requested from
+ * and the policy window. Returns a customer-facing reason when it isn't
+ * allowed, otherwise the items to return (with names filled in from the order).
+ */
+export function validateReturn(
+  storeId: string,
+  order: Order,
+  items: { sku: string; quantity: number }[],
+  now = new Date()
+) {
+  if (order.storeId !== storeId) return { ok: false as const, reason: NO_MATCH }
+
+  if (order.status !== 'delivered' || !order.deliveredAt) {
+    return { ok: false as const, reason: 'The order has not been delivered yet; a return can be requested once it arrives.' }
+  }
+
+  const daysSinceDelivery = (now.getTime() - new Date(order.deliveredAt).getTime()) / DAY_MS
+  if (daysSinceDelivery > RETURN_WINDOW_DAYS) {
+    return {
+      ok: false as const,
+      reason: `The order was delivered on ${order.deliveredAt.slice(0, 10)}, which is outside the ${RETURN_WINDOW_DAYS}-day return window.`
+    }
+  }
+
+  // Merge repeated SKUs so quantities are checked against the order as a whole
+  const requested = new Map<string, number>()
+  for (const item of items) {
+    const sku = item.sku.trim().toUpperCase()
+    requested.set(sku, (requested.get(sku) ?? 0) + item.quantity)
+  }
+
+  const accepted: ReturnItem[] = []
+  for (const [sku, quantity] of requested) {
+    const line = order.items.find((i) => i.sku.toUpperCase() === sku)
+    if (!line) return { ok: false as const, reason: `Item ${sku} is not part of this order.` }
+    if (quantity > line.quantity) {
+      return { ok: false as const, reason: `Only ${line.quantity} of ${line.name} were ordered.` }
+    }
+    accepted.push({ sku: line.sku, name: line.name, quantity })
+  }
+
+  return { ok: true as const, items: accepted }
+}
+
+/**
+ * Create a return request from chat after verifying the customer and the
+ * policy. Failures come back as a customer-facing reason rather than throwing,
+ * so the agent can relay them.
+ */
+export async function requestReturn(params: {
+  storeId: string
+  conversationId: string
+  orderNumber: string
+  email: string
+  items: { sku: string; quantity: number }[]
+  reason: string
+}) {
+  const order = await findCustomerOrder(params.storeId, params.orderNumber, params.email)
+  if (!order) return { ok: false as const, reason: NO_MATCH }
+
+  const check = validateReturn(params.storeId, order, params.items)
+  if (!check.ok) return check
+
+  const request = await createReturnRequest({
+    storeId: params.storeId,
+    conversationId: params.conversationId,
+    orderNumber: order.orderNumber,
+    email: order.email,
+    items: check.items,
+    reason: params.reason
+  })
+  if (!request) {
+    const existing = await getLatestReturnForOrder(params.storeId, order.orderNumber)
+    return {
+      ok: false as const,
+      reason: `A return has already been requested for this order (status: ${existing?.status ?? 'requested'}).`
+    }
+  }
+
+  return { ok: true as const, request }
+}
+
+/**
+ * The customer-facing update posted to the conversation after a decision.
+ */
+function decisionMessage(request: ReturnRequestRow) {
+  const note = request.decision_note ? ` ${request.decision_note}` : ''
+  switch (request.status) {
+    case 'approved':
+      return `Your return request for order ${request.order_number} has been approved.${note}`
+    case 'rejected':
+      return `Your return request for order ${request.order_number} was not approved.${note}`
+    case 'refunded':
+      return `Your refund for order ${request.order_number} has been issued.${note}`
+    default:
+      return `Your return request for order ${request.order_number} is now ${request.status}.${note}`
+  }
+}
+
+/**
+ * Apply a staff decision to one of a store's return requests and tell the customer in the
+ * conversation the request came from. Both are written in one transaction, so
+ * a decided request always has its message; live subscribers hear about it
+ * once it commits. Returns null if the request isn't the store's or isn't in
+ * a state that allows this decision.
+ */
+export async function decideReturn(storeId: string, id: string, decision: ReturnDecision, note?: string) {
+  const { from, to } = DECISIONS[decision]
+  const decided = await withTransaction(async (client) => {
+    const request = await transitionReturnRequest({ storeId, id, from, to, note, client })
+    if (!request) return null
+
+    const { message } = await insertMessage({
+      storeId: request.store_id,
+      conversationId: request.conversation_id,
+      sender: 'agent',
+      text: decisionMessage(request),
+      client
+    })
+    return { request, message }
+  })
+  if (!decided) return null
+
+  publishChatEvent(decided.request.conversation_id, { type: 'message', message: decided.message })
+  return decided.request
+}
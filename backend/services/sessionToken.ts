@@ -0,0 +1,64 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { env } from '../env.js'
+import { DEFAULT_STORE_ID } from '../repos/storeRepo.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * What a customer session token vouches for: the store whose widget issued
+ * it, the visitor (sessionId, which is also the id of their first
+ * conversation) and, once they have verified their email, the customer.
+ */
+export type SessionClaims = {
+  storeId: string
+  sessionId: string
+  customerId: string | null
+}
+
+// st is absent from tokens issued before stores existed; those belong to the default store
+type TokenPayload = { st?: string; sid: string; cid: string | null; exp: number }
+
+function sign(payload: string) {
+  return createHmac('sha256', env.SESSION_SECRET).update(payload).digest('base64url')
+}
+
+/**
+ * Issue a token of the form `<base64url payload>.<base64url HMAC>`, valid for
+ * SESSION_TTL_DAYS.
+ */
+export function signSessionToken(claims: SessionClaims) {
+  const expiresAt = new Date(Date.now() + env.SESSION_TTL_DAYS * DAY_MS)
+  const payload: TokenPayload = {
+    st: claims.storeId,
+    sid: claims.sessionId,
+    cid: claims.customerId,
+    exp: expiresAt.getTime()
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return { token: `${encoded}.${sign(encoded)}`, expiresAt }
+}
+
+/**
+ * Check a token's signature and expiry. Returns its claims, or null for
+ * anything malformed, tampered with or expired.
+ */
+export function verifySessionToken(token: string): SessionClaims | null {
+  const [encoded, signature, ...rest] = token.split('.')
+  if (!encoded || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(sign(encoded))
+  const provided = Buffer.from(signature)
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as TokenPayload
+    if (typeof payload.sid !== 'string' || typeof payload.exp !== 'number' || payload.exp <= Date.now()) return null
+    return {
+      storeId: typeof payload.st === 'string' ? payload.st : DEFAULT_STORE_ID,
+      sessionId: payload.sid,
+      customerId: typeof payload.cid === 'string' ? payload.cid : null
+    }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,73 @@
+import { env } from '../env.js'
+import { getStore, getStoreByKey, listStores, type StoreRow } from '../repos/storeRepo.js'
+
+/**
+ * Store settings are read on every chat request but change rarely, so they
+ * are cached per process. An edit through the admin API applies at once on
+ * the instance that made it and within CACHE_TTL_MS elsewhere.
+ */
+const CACHE_TTL_MS = 60_000
+
+type Cached<T> = { value: T; expiresAt: number }
+
+const byId = new Map<string, Cached<StoreRow | null>>()
+const byKey = new Map<string, Cached<StoreRow | null>>()
+let allowedOrigins: Cached<Set<string>> | null = null
+
+async function cached<K>(cache: Map<K, Cached<StoreRow | null>>, key: K, load: () => Promise<StoreRow | null>) {
+  const hit = cache.get(key)
+  if (hit && hit.expiresAt > Date.now()) return hit.value
+  const value = await load()
+  cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS })
+  return value
+}
+
+/** A store by id, or null if it doesn't exist. */
+export async function findStore(storeId: string) {
+  return await cached(byId, storeId, () => getStore(storeId))
+}
+
+/** A store by the public key its widget sends, or null if there is none. */
+export async function findStoreByKey(key: string) {
+  return await cached(byKey, key, () => getStoreByKey(key))
+}
+
+/** Drop cached settings after a store is created or changed. */
+export function invalidateStoreCache() {
+  byId.clear()
+  byKey.clear()
+  allowedOrigins = null
+}
+
+/**
+ * Whether a browser origin may call the API: CORS_ORIGIN (the first-party
+ * widget and operator console) or any store's cors_origins.
+ */
+export async function isAllowedOrigin(origin: string) {
+  if (origin === env.CORS_ORIGIN) return true
+  if (!allowedOrigins || allowedOrigins.expiresAt <= Date.now()) {
+    const stores = await listStores()
+    allowedOrigins = { value: new Set(stores.flatMap((s) => s.cors_origins)), expiresAt: Date.now() + CACHE_TTL_MS }
+  }
+  return allowedOrigins.value.has(origin)
+}
+
+/**
+ * Whether a store's widget may run on a page from this origin. Stores that
+ * list no origins accept CORS_ORIGIN only; requests without an Origin header
+ * (server-side clients) are not restricted.
+ */
+export function storeAcceptsOrigin(store: StoreRow, origin: string | undefined) {
+  if (!origin) return true
+  return store.cors_origins.length > 0 ? store.cors_origins.includes(origin) : origin === env.CORS_ORIGIN
+}
+
+/** The model a store's replies and summaries use. */
+export function storeModel(store: StoreRow) {
+  return store.model ?? env.LLM_MODEL
+}
+
+/** The part of a store's settings the widget is allowed to see. */
+export function publicStoreConfig(store: StoreRow) {
+  return { key: store.key, name: store.name, branding: store.branding }
+}
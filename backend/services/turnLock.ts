@@ -0,0 +1,97 @@
+import { errorMeta, log } from '../logger.js'
+import { renewTurn, tryLockTurn, unlockTurn } from '../repos/chatRepo.js'
+
+/**
+ * One customer turn at a time per conversation. A turn holds the
+ * conversation's lease from reading its history until the reply is stored,
+ * so the next message's turn sees that reply and answers come back in order.
+ *
+ * The lease lives on the conversation row rather than in a held connection,
+ * so it works across instances without pinning a pool client for the length
+ * of an LLM call. The holder renews it on a heartbeat for as long as the turn
+ * runs, however slow the model is; if the holder dies, the lease lapses after
+ * TURN_LEASE_MS.
+ */
+
+const TURN_LEASE_MS = 60_000
+// Several renewals per lease, so one slow or failed renewal doesn't lose it
+const HEARTBEATS_PER_LEASE = 4
+// How long a message waits for the turn ahead of it before being turned away
+const TURN_WAIT_MS = 30_000
+const POLL_MS = 250
+
+/**
+ * Where leases live. The default keeps them on the conversation row
+ * (repos/chatRepo.ts); tests pass their own.
+ */
+export interface TurnLockStore {
+  /** Take the lease if it's free or lapsed; returns the holder's token, or null. */
+  tryLock(storeId: string, conversationId: string, leaseMs: number): Promise<string | null>
+  /** Extend the lease; false if the token no longer holds it. */
+  renew(conversationId: string, token: string, leaseMs: number): Promise<boolean>
+  /** Give the lease up; false if the token no longer held it. */
+  unlock(conversationId: string, token: string): Promise<boolean>
+}
+
+const conversationLeases: TurnLockStore = { tryLock: tryLockTurn, renew: renewTurn, unlock: unlockTurn }
+
+export type TurnLockOptions = { store?: TurnLockStore; waitMs?: number; pollMs?: number; leaseMs?: number }
+
+export type TurnLock = {
+  conversationId: string
+  token: string
+  acquiredAt: number
+  store: TurnLockStore
+  heartbeat: ReturnType<typeof setInterval>
+}
+
+/**
+ * Wait for the conversation's turn, polling until the current holder is done,
+ * then keep the lease renewed until releaseTurnLock. Waiting turns aren't
+ * strictly first come, first served. Returns null if the turn ahead is still
+ * running after waitMs (TURN_WAIT_MS by default).
+ */
+export async function acquireTurnLock(
+  storeId: string,
+  conversationId: string,
+  opts: TurnLockOptions = {}
+): Promise<TurnLock | null> {
+  const store = opts.store ?? conversationLeases
+  const leaseMs = opts.leaseMs ?? TURN_LEASE_MS
+  const pollMs = opts.pollMs ?? POLL_MS
+  const deadline = Date.now() + (opts.waitMs ?? TURN_WAIT_MS)
+
+  while (true) {
+    const token = await store.tryLock(storeId, conversationId, leaseMs)
+    if (token) {
+      const acquiredAt = Date.now()
+      const heartbeat = setInterval(() => {
+        store.renew(conversationId, token, leaseMs).then(
+          (held) => {
+            if (held) return
+            clearInterval(heartbeat)
+            log('warn', 'turn_lock.lost', { conversationId, heldMs: Date.now() - acquiredAt })
+          },
+          (err: unknown) => log('warn', 'turn_lock.renew_failed', { conversationId, ...errorMeta(err) })
+        )
+      }, leaseMs / HEARTBEATS_PER_LEASE)
+      heartbeat.unref()
+      return { conversationId, token, acquiredAt, store, heartbeat }
+    }
+    if (Date.now() + pollMs > deadline) return null
+    await new Promise((resolve) => setTimeout(resolve, pollMs))
+  }
+}
+
+/**
+ * Stop renewing and give the lease up. If it was already lost (renewals kept
+ * failing until it lapsed and another turn took it), that's logged: the two
+ * turns may have interleaved.
+ */
+export async function releaseTurnLock(lock: TurnLock) {
+  clearInterval(lock.heartbeat)
+  const released = await lock.store.unlock(lock.conversationId, lock.token)
+  if (!released) {
+    log('warn', 'turn_lock.lost', { conversationId: lock.conversationId, heldMs: Date.now() - lock.acquiredAt })
+  }
+}
@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseCursor } from '../routes/cursor.js'
+
+const id = '2b0e6a4e-58a4-4b6c-9f0e-2b6f2c6a1d11'
+
+describe('parseCursor', () => {
+  it('parses "<ISO date>|<uuid>"', () => {
+    assert.deepEqual(parseCursor(`2026-10-01T12:00:00.000Z|${id}`), { createdAt: '2026-10-01T12:00:00.000Z', id })
+  })
+
+  it('accepts a bare date and normalizes other date formats to ISO', () => {
+    assert.deepEqual(parseCursor('2026-10-01T12:00:00.000Z'), { createdAt: '2026-10-01T12:00:00.000Z', id: undefined })
+    assert.deepEqual(parseCursor(`Thu, 01 Oct 2026 12:00:00 GMT|${id}`), { createdAt: '2026-10-01T12:00:00.000Z', id })
+  })
+
+  it('rejects missing, malformed and extra parts', () => {
+    assert.equal(parseCursor(undefined), null)
+    assert.equal(parseCursor('not a date'), null)
+    assert.equal(parseCursor('2026-10-01T12:00:00.000Z|not-a-uuid'), null)
+    assert.equal(parseCursor(`2026-10-01T12:00:00.000Z|${id}|extra`), null)
+  })
+})
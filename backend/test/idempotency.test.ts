@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { claimIdempotencyKey, completeIdempotencyKey, releaseIdempotencyKey } from '../services/idempotency/index.js'
+import { MemoryIdempotencyStore } from '../services/idempotency/memoryIdempotencyStore.js'
+
+const scope = { conversationId: '11111111-1111-4111-8111-111111111111', key: 'key-1' }
+const response = { status: 200, body: { reply: 'Hi!' } }
+
+describe('claimIdempotencyKey (memory store)', () => {
+  it('replays the response to a repeat that waited for the original', async () => {
+    const store = new MemoryIdempotencyStore()
+    assert.deepEqual(await claimIdempotencyKey(scope, 'fp', { store }), { state: 'claimed' })
+
+    const repeat = claimIdempotencyKey(scope, 'fp', { store, waitMs: 1000, pollMs: 5 })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    await completeIdempotencyKey(scope, response, store)
+
+    assert.deepEqual(await repeat, { state: 'replay', response })
+    assert.deepEqual(await claimIdempotencyKey(scope, 'fp', { store }), { state: 'replay', response })
+  })
+
+  it('reports a repeat still in flight once the wait runs out', async () => {
+    const store = new MemoryIdempotencyStore()
+    await claimIdempotencyKey(scope, 'fp', { store })
+    assert.deepEqual(await claimIdempotencyKey(scope, 'fp', { store, waitMs: 20, pollMs: 5 }), { state: 'in_progress' })
+  })
+
+  it('rejects a key reused for a different request', async () => {
+    const store = new MemoryIdempotencyStore()
+    await claimIdempotencyKey(scope, 'fp', { store })
+    assert.deepEqual(await claimIdempotencyKey(scope, 'other', { store, waitMs: 0 }), { state: 'mismatch' })
+
+    await completeIdempotencyKey(scope, response, store)
+    assert.deepEqual(await claimIdempotencyKey(scope, 'other', { store }), { state: 'mismatch' })
+  })
+
+  it('lets a retry run again after the original released the key', async () => {
+    const store = new MemoryIdempotencyStore()
+    await claimIdempotencyKey(scope, 'fp', { store })
+    await releaseIdempotencyKey(scope, store)
+    assert.deepEqual(await claimIdempotencyKey(scope, 'fp', { store }), { state: 'claimed' })
+  })
+})
+
+describe('MemoryIdempotencyStore', () => {
+  it('hands the key over once the holder’s lease expires', async () => {
+    let now = 1_000_000
+    const store = new MemoryIdempotencyStore(() => now)
+    assert.equal((await store.claim(scope, 'fp', 1000)).claimed, true)
+
+    now += 999
+    assert.deepEqual(await store.claim(scope, 'fp', 1000), {
+      claimed: false,
+      record: { fingerprint: 'fp', response: null }
+    })
+
+    now += 1
+    assert.equal((await store.claim(scope, 'fp', 1000)).claimed, true)
+  })
+
+  it('keeps a response for its TTL and purges it on sweep', async () => {
+    let now = 1_000_000
+    const store = new MemoryIdempotencyStore(() => now)
+    await store.claim(scope, 'fp', 1000)
+    await store.complete(scope, response, 60_000)
+
+    now += 59_999
+    store.sweep(now)
+    assert.deepEqual(await store.claim(scope, 'other', 1000), { claimed: false, record: { fingerprint: 'fp', response } })
+
+    now += 1
+    store.sweep(now)
+    assert.equal((await store.claim(scope, 'other', 1000)).claimed, true)
+  })
+
+  it('keeps a completed key when the holder releases it late', async () => {
+    const store = new MemoryIdempotencyStore()
+    await store.claim(scope, 'fp', 1000)
+    await store.complete(scope, response, 60_000)
+    await store.release(scope)
+    assert.deepEqual(await store.claim(scope, 'fp', 1000), { claimed: false, record: { fingerprint: 'fp', response } })
+  })
+})
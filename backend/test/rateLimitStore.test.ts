@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MemoryRateLimitStore } from '../services/rateLimit/memoryRateLimitStore.js'
+
+const session = { key: 'store:message:session:s1', max: 5, windowMs: 10_000 }
+const ip = { key: 'store:message:ip:1.2.3.4', max: 2, windowMs: 60_000 }
+
+describe('MemoryRateLimitStore', () => {
+  it("doesn't drain the other buckets while one limit blocks", async () => {
+    const store = new MemoryRateLimitStore(() => 0)
+
+    assert.deepEqual((await store.take([session, ip])).map((r) => r.allowed), [true, true])
+    assert.deepEqual((await store.take([session, ip])).map((r) => r.allowed), [true, true])
+    for (let i = 0; i < 10; i++) {
+      assert.deepEqual((await store.take([session, ip])).map((r) => r.allowed), [true, false])
+    }
+
+    // The session bucket only paid for the two requests that went through
+    const [sessionOnly] = await store.take([session])
+    assert.equal(sessionOnly!.allowed, true)
+    assert.equal(sessionOnly!.remaining, 2)
+  })
+
+  it('refills over time', async () => {
+    let now = 0
+    const store = new MemoryRateLimitStore(() => now)
+    await store.take([ip])
+    await store.take([ip])
+    assert.equal((await store.take([ip]))[0]!.allowed, false)
+
+    now += 30_000
+    assert.equal((await store.take([ip]))[0]!.allowed, true)
+  })
+})
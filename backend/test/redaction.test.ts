@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { createRedactor, maskPii, maskQuery } from '../services/redaction.js'
+
+describe('maskPii', () => {
+  it('masks each kind of personal data', () => {
+    assert.equal(
+      maskPii('Mail alex@example.com or call +1 415 555 0132, card 4242 4242 4242 4242, 12 Baker Street'),
+      'Mail [email] or call [phone], card [card], [address]'
+    )
+  })
+
+  it('leaves short numbers and non-Luhn long numbers alone', () => {
+    assert.equal(maskPii('2 tees, tracking 1Z999AA10123456784'), '2 tees, tracking 1Z999AA10123456784')
+  })
+
+  it('leaves bare digit runs that follow order or reference wording alone', () => {
+    assert.equal(maskPii('order number 100234567'), 'order number 100234567')
+    assert.equal(maskPii('Order #100234567 and ref: 4155550132'), 'Order #100234567 and ref: 4155550132')
+    assert.equal(maskPii('my number is 4155550132'), 'my number is [phone]')
+    assert.equal(maskPii('order 12, call +14155550132'), 'order 12, call [phone]')
+    assert.equal(maskPii('order questions: 415-555-0132'), 'order questions: [phone]')
+  })
+})
+
+describe('maskQuery', () => {
+  it('masks personal data in query values and redacts tokens', () => {
+    assert.deepEqual(maskQuery({ email: 'alex@example.com', token: 'secret', q: 'call 415-555-0132', limit: '20' }), {
+      email: '[email]',
+      token: '[redacted]',
+      q: 'call [phone]',
+      limit: '20'
+    })
+  })
+
+  it('masks repeated and nested values', () => {
+    assert.deepEqual(maskQuery({ to: ['alex@example.com', 'x'], filter: { email: 'sam@example.com' } }), {
+      to: ['[email]', 'x'],
+      filter: { email: '[email]' }
+    })
+  })
+})
+
+describe('createRedactor', () => {
+  it('swaps values for numbered placeholders and restores them', () => {
+    const redactor = createRedactor()
+    const redacted = redactor.redact('I am alex@example.com, not sam@example.com. Again: ALEX@example.com')
+    assert.equal(redacted, 'I am [EMAIL_1], not [EMAIL_2]. Again: [EMAIL_1]')
+    assert.equal(redactor.restore('Sent to [EMAIL_2], cc [EMAIL_3]'), 'Sent to sam@example.com, cc [EMAIL_3]')
+  })
+
+  it('restores placeholders throughout tool arguments', () => {
+    const redactor = createRedactor()
+    redactor.redact('alex@example.com')
+    assert.deepEqual(redactor.restoreArgs({ email: '[EMAIL_1]', items: [{ note: 'for [EMAIL_1]' }], quantity: 2 }), {
+      email: 'alex@example.com',
+      items: [{ note: 'for alex@example.com' }],
+      quantity: 2
+    })
+  })
+
+  it('holds back a placeholder split across stream deltas', () => {
+    const redactor = createRedactor()
+    redactor.redact('alex@example.com')
+    const stream = redactor.createRestoreStream()
+    assert.equal(stream.push('Sent to [EMA'), 'Sent to ')
+    assert.equal(stream.push('IL_1] now'), 'alex@example.com now')
+    assert.equal(stream.push(' [1'), ' ')
+    assert.equal(stream.flush(), '[1')
+  })
+})
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { RETURN_WINDOW_DAYS, validateReturn } from '../services/returns.js'
+import type { Order } from '../services/orders/types.js'
+
+const STORE_ID = '00000000-0000-0000-0000-000000000001'
+const OTHER_STORE_ID = '00000000-0000-0000-0000-000000000002'
+
+const order: Order = {
+  storeId: STORE_ID,
+  orderNumber: 'SP-1003',
+  email: 'jordan@example.com',
+  status: 'delivered',
+  items: [
+    { sku: 'BAG-TOTE', name: 'Canvas Tote', quantity: 2 },
+    { sku: 'CAP-NVY', name: 'Classic Cap (Navy)', quantity: 1 }
+  ],
+  placedAt: '2026-09-20T10:00:00Z',
+  shippedAt: '2026-09-21T12:00:00Z',
+  deliveredAt: '2026-09-25T15:20:00Z',
+  carrier: 'UPS',
+  trackingNumber: null,
+  estimatedDelivery: null
+}
+
+const soon = new Date('2026-10-01T00:00:00Z')
+
+describe('validateReturn', () => {
+  it('accepts delivered items within the window, merging repeated SKUs', () => {
+    const check = validateReturn(STORE_ID, order, [
+      { sku: 'bag-tote', quantity: 1 },
+      { sku: 'BAG-TOTE', quantity: 1 }
+    ], soon)
+    assert.deepEqual(check, { ok: true, items: [{ sku: 'BAG-TOTE', name: 'Canvas Tote', quantity: 2 }] })
+  })
+
+  it("refuses another store's order as if it didn't exist", () => {
+    const check = validateReturn(OTHER_STORE_ID, order, [{ sku: 'BAG-TOTE', quantity: 1 }], soon)
+    assert.deepEqual(check, { ok: false, reason: 'No order matches that order number and email.' })
+  })
+
+  it('refuses orders that have not been delivered', () => {
+    const check = validateReturn(STORE_ID, { ...order, status: 'shipped', deliveredAt: null }, [{ sku: 'BAG-TOTE', quantity: 1 }], soon)
+    assert.equal(check.ok, false)
+  })
+
+  it('refuses once the return window has passed', () => {
+    const late = new Date(new Date(order.deliveredAt!).getTime() + (RETURN_WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000)
+    const check = validateReturn(STORE_ID, order, [{ sku: 'BAG-TOTE', quantity: 1 }], late)
+    assert.equal(check.ok, false)
+    assert.match(check.ok ? '' : check.reason, /outside the 30-day return window/)
+  })
+
+  it('refuses items not on the order or more than were ordered', () => {
+    assert.deepEqual(validateReturn(STORE_ID, order, [{ sku: 'TEE-BLK-M', quantity: 1 }], soon), {
+      ok: false,
+      reason: 'Item TEE-BLK-M is not part of this order.'
+    })
+    assert.deepEqual(validateReturn(STORE_ID, order, [{ sku: 'CAP-NVY', quantity: 2 }], soon), {
+      ok: false,
+      reason: 'Only 1 of Classic Cap (Navy) were ordered.'
+    })
+  })
+})
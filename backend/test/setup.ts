@@ -0,0 +1,5 @@
+// env.ts validates on import; tests never connect, so placeholders will do
+process.env.DATABASE_URL ??= 'postgres://localhost:5432/spur_test'
+process.env.SESSION_SECRET ??= 'test-session-secret-0123456789abcdef0123'
+process.env.LLM_PROVIDER ??= 'stub'
+process.env.LOG_FILE ??= 'logs/test.log'
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { takeToken, takeTokens, type BucketState } from '../services/rateLimit/tokenBucket.js'
+
+const rule = { key: 'test', max: 3, windowMs: 3000 }
+
+describe('takeToken', () => {
+  it('starts a new bucket full and spends one token per request', () => {
+    const { result, next } = takeToken(null, rule, 0)
+    assert.equal(result.allowed, true)
+    assert.equal(result.remaining, 2)
+    assert.deepEqual(next, { tokens: 2, updatedAt: 0 })
+  })
+
+  it('refuses once empty and says when the next token arrives', () => {
+    let state: BucketState | null = null
+    for (let i = 0; i < 3; i++) state = takeToken(state, rule, 0).next
+
+    const { result, next } = takeToken(state, rule, 400)
+    assert.equal(result.allowed, false)
+    assert.equal(result.remaining, 0)
+    assert.equal(result.retryAfterMs, 600)
+    assert.ok(Math.abs(next.tokens - 0.4) < 1e-9)
+  })
+
+  it('refills continuously, never past max', () => {
+    const empty = { tokens: 0, updatedAt: 0 }
+    assert.equal(takeToken(empty, rule, 1000).result.allowed, true)
+    assert.equal(takeToken(empty, rule, 60_000).result.remaining, 2)
+  })
+
+  it('expires the bucket when it would be full again', () => {
+    const { result, expiresAt } = takeToken(null, rule, 5000)
+    assert.equal(result.resetMs, 1000)
+    assert.equal(expiresAt, 6000)
+  })
+})
+
+describe('takeTokens', () => {
+  const tight = { key: 'tight', max: 1, windowMs: 1000 }
+
+  it('spends from every bucket when all allow', () => {
+    const takes = takeTokens([null, null], [rule, tight], 0)
+    assert.deepEqual(takes.map((t) => t.next.tokens), [2, 0])
+  })
+
+  it('spends nothing when any bucket refuses', () => {
+    const takes = takeTokens([null, { tokens: 0, updatedAt: 0 }], [rule, tight], 0)
+    assert.deepEqual(takes.map((t) => t.result.allowed), [true, false])
+    assert.deepEqual(takes.map((t) => t.next.tokens), [3, 0])
+    assert.equal(takes[0]!.result.remaining, 3)
+  })
+})
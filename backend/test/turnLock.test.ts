@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { Request, Response } from 'express'
+import { claimTurn } from '../routes/turnClaim.js'
+import { acquireTurnLock, releaseTurnLock, type TurnLockStore } from '../services/turnLock.js'
+
+const STORE_ID = '00000000-0000-0000-0000-000000000001'
+const CONVERSATION_ID = '11111111-1111-4111-8111-111111111111'
+
+/** Leases in a map, with the same rules as the conversation-row leases. */
+class FakeLeases implements TurnLockStore {
+  readonly leases = new Map<string, { token: string; until: number }>()
+  renewals = 0
+  private next = 0
+
+  async tryLock(_storeId: string, conversationId: string, leaseMs: number) {
+    const lease = this.leases.get(conversationId)
+    if (lease && lease.until > Date.now()) return null
+    const token = `token-${++this.next}`
+    this.leases.set(conversationId, { token, until: Date.now() + leaseMs })
+    return token
+  }
+
+  async renew(conversationId: string, token: string, leaseMs: number) {
+    const lease = this.leases.get(conversationId)
+    if (lease?.token !== token) return false
+    this.renewals++
+    lease.until = Date.now() + leaseMs
+    return true
+  }
+
+  async unlock(conversationId: string, token: string) {
+    if (this.leases.get(conversationId)?.token !== token) return false
+    this.leases.delete(conversationId)
+    return true
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function fakeExchange() {
+  const sent: { status?: number; body?: unknown; headers: Record<string, unknown> } = { headers: {} }
+  const req = { header: () => undefined } as unknown as Request
+  const res = {
+    locals: {},
+    setHeader(name: string, value: unknown) {
+      sent.headers[name] = value
+      return this
+    },
+    status(code: number) {
+      sent.status = code
+      return this
+    },
+    json(body: unknown) {
+      sent.body = body
+      return this
+    }
+  } as unknown as Response
+  return { req, res, sent }
+}
+
+describe('acquireTurnLock', () => {
+  it('makes a second turn wait until the first releases', async () => {
+    const store = new FakeLeases()
+    const first = await acquireTurnLock(STORE_ID, CONVERSATION_ID, { store })
+    assert.ok(first)
+
+    const second = acquireTurnLock(STORE_ID, CONVERSATION_ID, { store, waitMs: 1000, pollMs: 5 })
+    await sleep(20)
+    await releaseTurnLock(first)
+
+    const lock = await second
+    assert.ok(lock)
+    assert.notEqual(lock.token, first.token)
+    await releaseTurnLock(lock)
+  })
+
+  it('renews the lease while the turn runs', async () => {
+    const store = new FakeLeases()
+    const lock = await acquireTurnLock(STORE_ID, CONVERSATION_ID, { store, leaseMs: 40 })
+    assert.ok(lock)
+
+    await sleep(120)
+    assert.ok(store.renewals >= 2)
+    assert.equal(await store.tryLock(STORE_ID, CONVERSATION_ID, 40), null)
+    await releaseTurnLock(lock)
+    assert.equal(store.leases.size, 0)
+  })
+})
+
+describe('claimTurn', () => {
+  it('answers a second concurrent message with 409 and Retry-After once the wait runs out', async () => {
+    const store = new FakeLeases()
+    const args = {
+      storeId: STORE_ID,
+      sessionId: CONVERSATION_ID,
+      cleanMessage: 'Where is my order?',
+      logPrefix: 'chat.message',
+      replay: () => assert.fail('nothing to replay'),
+      turnLock: { store, waitMs: 50, pollMs: 5 }
+    }
+
+    const first = fakeExchange()
+    const hold = await claimTurn(first.req, first.res, args)
+    assert.ok(hold)
+
+    const second = fakeExchange()
+    const started = Date.now()
+    assert.equal(await claimTurn(second.req, second.res, args), null)
+    assert.ok(Date.now() - started >= 45)
+    assert.equal(second.sent.status, 409)
+    assert.equal(second.sent.headers['Retry-After'], 5)
+
+    await hold.finish(null)
+    const third = fakeExchange()
+    const next = await claimTurn(third.req, third.res, args)
+    assert.ok(next)
+    await next.finish(null)
+  })
+})
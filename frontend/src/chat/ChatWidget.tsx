@@ -1,10 +1,42 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useEffect, useImperativeHandle, useRef, useState, type Ref } from 'react'
 import { Virtuoso, type VirtuosoHandle } from 'react-virtuoso'
-import type { ChatMessage } from './types'
-import { getOrCreateSessionId } from './storage'
-import { fetchHistory, sendMessage } from './api'
-
-const MAX_MESSAGE_CHARS = 2000
+import type {
+  BudgetExhaustedResponse,
+  ChatMessage,
+  ChatSession,
+  ChatWidgetEvent,
+  ChatWidgetHandle,
+  ConversationStatus,
+  MessageDelivery,
+  OutboxEntry,
+  WidgetPosition,
+  WidgetTheme
+} from './types'
+import { loadActiveConversationId, loadSession, saveActiveConversationId } from './storage'
+import { createConversation, ensureSession, fetchHistory, requestVerificationCode, streamMessage } from './api'
+import { upsertMessage, useChatSubscription } from './useChatSubscription'
+import {
+  MAX_AUTO_ATTEMPTS,
+  addToOutbox,
+  isRetryable,
+  outboxFor,
+  removeFromOutbox,
+  retryDelayMs,
+  skipBackoff,
+  toApiError,
+  updateOutboxEntry,
+  wasStored
+} from './outbox'
+import IdentifyPanel from './IdentifyPanel'
+import ConversationList from './ConversationList'
+
+// Matches the backend's default MAX_MESSAGE_CHARS
+const DEFAULT_MAX_MESSAGE_CHARS = 2000
+const DEFAULT_SUGGESTED_QUESTIONS = [
+  "What's your return policy?",
+  'How long does shipping take?',
+  'What are your support hours?'
+]
 const FIRST_INDEX = 100_000
 //virtuoso asks for a higher first index for better scroll positioning
 
@@ -13,6 +45,17 @@ type DraftState = {
   error: string | null
 }
 
+// The optimistic copy of a queued message shown until the backend's copy replaces it
+function toOptimisticMessage(entry: OutboxEntry): ChatMessage {
+  return {
+    id: entry.id,
+    role: 'user',
+    text: entry.text,
+    delivery: entry.failed ? 'failed' : 'pending',
+    created_at: entry.createdAt
+  }
+}
+
 function IconChat() {
   return (
     <svg viewBox="0 0 24 24" fill="none" className="h-5 w-5" aria-hidden="true">
@@ -41,6 +84,20 @@ function IconX() {
   )
 }
 
+function IconList() {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" className="h-5 w-5" aria-hidden="true">
+      <path
+        d="M8 6h13M8 12h13M8 18h13M3 6h.01M3 12h.01M3 18h.01"
+        stroke="currentColor"
+        strokeWidth="1.8"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  )
+}
+
 function IconExpand() {
   return (
     <svg viewBox="0 0 24 24" fill="none" className="h-5 w-5" aria-hidden="true">
@@ -55,9 +112,48 @@ function IconExpand() {
   )
 }
 
+/**
+ * Host-page settings. Each one overrides the store's branding, which in turn
+ * overrides the widget's defaults. ref exposes open/close/sendMessage/identify
+ * and onEvent reports what happens, for the embed script's SpurChat API.
+ */
+export type ChatWidgetProps = {
+  greeting?: string
+  suggestedQuestions?: string[]
+  theme?: WidgetTheme
+  position?: WidgetPosition
+  maxMessageChars?: number
+  onEvent?: (event: ChatWidgetEvent) => void
+  ref?: Ref<ChatWidgetHandle>
+}
 
-export default function ChatWidget() {
-  const sessionId = useMemo(() => getOrCreateSessionId(), [])
+export default function ChatWidget(props: ChatWidgetProps) {
+  const maxMessageChars = props.maxMessageChars ?? DEFAULT_MAX_MESSAGE_CHARS
+  // Refreshed (or created) when the widget opens; the token authorizes every chat request
+  const [session, setSession] = useState<ChatSession | null>(() => loadSession())
+  // The conversation on screen; defaults to the session's first conversation
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(() => loadActiveConversationId())
+  const conversationId = activeConversationId ?? session?.sessionId ?? ''
+  const [showConversations, setShowConversations] = useState(false)
+  const [isIdentifying, setIsIdentifying] = useState(false)
+  // Set by identify(): the email a code was already sent to
+  const [identifyEmail, setIdentifyEmail] = useState<string | null>(null)
+  // Text from sendMessage(), sent once the conversation has loaded
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null)
+  // Received messages already reported, since a reply can arrive over both the stream and the subscription
+  const announcedRef = useRef(new Set<string>())
+  // Read through refs so the effects below don't re-run when the host passes a new callback
+  const onEventRef = useRef(props.onEvent)
+  const handleSendRef = useRef(handleSend)
+  const flushOutboxRef = useRef(flushOutbox)
+  useEffect(() => {
+    onEventRef.current = props.onEvent
+    handleSendRef.current = handleSend
+    flushOutboxRef.current = flushOutbox
+  })
+  // The outbox sends one message at a time; a timer wakes it when a retry is due
+  const deliveringRef = useRef(false)
+  const retryTimerRef = useRef<number | null>(null)
 
   const [isOpen, setIsOpen] = useState(false)
   const [isExpanded, setIsExpanded] = useState(false)
@@ -69,7 +165,11 @@ export default function ChatWidget() {
   const [isLoadingHistory, setIsLoadingHistory] = useState(false)
   const [isLoadingMore, setIsLoadingMore] = useState(false)
   const [isSending, setIsSending] = useState(false)
+  // Text of the AI reply currently being streamed (null until the first delta arrives)
+  const [streamingReply, setStreamingReply] = useState<string | null>(null)
   const [requestError, setRequestError] = useState<string | null>(null)
+  const [conversationStatus, setConversationStatus] = useState<ConversationStatus>('ai')
+  const humanOwned = conversationStatus === 'pending_human' || conversationStatus === 'human'
 
   const [draft, setDraft] = useState<DraftState>({ text: '', error: null })
 
@@ -77,18 +177,74 @@ export default function ChatWidget() {
   const [atBottom, setAtBottom] = useState(true)
   const [firstItemIndex, setFirstItemIndex] = useState(FIRST_INDEX)
 
-  const suggested = [
-    "What's your return policy?",
-    'How long does shipping take?',
-    'What are your support hours?'
-  ]
+  // Live updates: operator replies, other tabs, and our own messages echoed back
+  useChatSubscription({
+    token: session?.token ?? '',
+    sessionId: conversationId,
+    enabled: isOpen && !isLoadingHistory && !!session,
+    onMessage: (m) => {
+      setMessages((prev) => upsertMessage(prev, m))
+      announceReceived(m)
+    },
+    onStatus: (e) => setConversationStatus(e.status)
+  })
+
+  // The store's branding arrives with the session; until then (and for anything it leaves out) the defaults apply
+  const branding = session?.store?.branding ?? {}
+  const accentColor = props.theme?.accentColor ?? branding.accentColor
+  const accentStyle = accentColor ? { backgroundColor: accentColor } : undefined
+  const greeting = props.greeting ?? branding.greeting ?? 'Hi! How can I help?'
+  const suggested = props.suggestedQuestions ?? branding.suggestions ?? DEFAULT_SUGGESTED_QUESTIONS
+
+  function emit(event: ChatWidgetEvent) {
+    onEventRef.current?.(event)
+  }
+
+  function announceReceived(message: ChatMessage) {
+    if (message.role === 'user' || announcedRef.current.has(message.id)) return
+    announcedRef.current.add(message.id)
+    emit({ type: 'messageReceived', message })
+  }
+
+  useEffect(() => {
+    if (requestError) onEventRef.current?.({ type: 'error', error: requestError })
+  }, [requestError])
 
-  const typingMessage: ChatMessage | null = isSending
+  function open() {
+    if (isOpen) return
+    setIsOpen(true)
+    emit({ type: 'open' })
+  }
+
+  function close() {
+    if (!isOpen) return
+    setIsOpen(false)
+    setIsExpanded(false)
+    emit({ type: 'close' })
+  }
+
+  useImperativeHandle(props.ref, () => ({
+    open,
+    close,
+    sendMessage(text: string) {
+      open()
+      setPendingMessage(text)
+    },
+    async identify(email: string) {
+      open()
+      const current = session ?? (await ensureSession())
+      await requestVerificationCode({ token: current.token, email })
+      setIdentifyEmail(email)
+      setIsIdentifying(true)
+    }
+  }))
+
+  // No typing indicator while a person is answering; their reply isn't part of this request
+  const typingMessage: ChatMessage | null = isSending && (!humanOwned || streamingReply !== null)
     ? {
       id: '__typing__',
-      conversation_id: sessionId,
-      sender: 'ai',
-      text: 'Agent is typing…',
+      role: 'ai',
+      text: streamingReply ?? 'Agent is typing…',
       created_at: new Date().toISOString()
     }
     : null
@@ -98,12 +254,31 @@ export default function ChatWidget() {
     : messages
 
 
-  async function loadInitial() {
+  async function loadConversation(targetId: string | null) {
     setIsLoadingHistory(true)
+    setRequestError(null)
     try {
-      const res = await fetchHistory({ sessionId })
-      setMessages(res.messages)
+      const current = await ensureSession()
+      setSession(current)
+
+      let id = targetId ?? current.sessionId
+      let res
+      try {
+        res = await fetchHistory({ token: current.token, sessionId: id })
+      } catch (err) {
+        // A remembered conversation from an earlier session; fall back to this session's own
+        if ((err as { status?: number }).status !== 403 || id === current.sessionId) throw err
+        id = current.sessionId
+        res = await fetchHistory({ token: current.token, sessionId: id })
+      }
+
+      setActiveConversationId(id)
+      saveActiveConversationId(id)
+      // Messages still in the outbox go at the end, unless the backend already has them
+      const stored = new Set(res.messages.map((m) => m.client_message_id))
+      setMessages([...res.messages, ...outboxFor(id).filter((e) => !stored.has(e.id)).map(toOptimisticMessage)])
       setNextCursor(res.nextCursor)
+      setConversationStatus(res.status)
       setHasMore(res.messages.length > 0)
       setFirstItemIndex(0)
 
@@ -123,10 +298,10 @@ export default function ChatWidget() {
   }
 
   async function loadOlder() {
-    if (!hasMore || !nextCursor || isLoadingMore) return
+    if (!session || !hasMore || !nextCursor || isLoadingMore) return
     setIsLoadingMore(true)
     try {
-      const res = await fetchHistory({ sessionId, cursor: nextCursor })
+      const res = await fetchHistory({ token: session.token, sessionId: conversationId, cursor: nextCursor })
       if (res.messages.length === 0) {
         setHasMore(false)
         return
@@ -141,56 +316,158 @@ export default function ChatWidget() {
 
   useEffect(() => {
     if (isOpen) {
-      void loadInitial()
+      void loadConversation(loadActiveConversationId())
     }
   }, [isOpen])
 
+  function selectConversation(id: string) {
+    setShowConversations(false)
+    if (id !== conversationId) void loadConversation(id)
+  }
+
+  async function startNewConversation() {
+    if (!session) return
+    try {
+      const { conversation } = await createConversation({ token: session.token })
+      setShowConversations(false)
+      void loadConversation(conversation.id)
+    } catch {
+      setRequestError('Failed to start a new conversation')
+    }
+  }
+
 
   useEffect(() => {
     const t = draft.text.trim()
     if (!t) {
       setDraft((d) => ({ ...d, error: null }))
-    } else if (t.length > MAX_MESSAGE_CHARS) {
+    } else if (t.length > maxMessageChars) {
       setDraft((d) => ({
         ...d,
-        error: `Max ${MAX_MESSAGE_CHARS} characters`
+        error: `Max ${maxMessageChars} characters`
       }))
     } else {
       setDraft((d) => ({ ...d, error: null }))
     }
-  }, [draft.text])
+  }, [draft.text, maxMessageChars])
 
+  // A message from sendMessage() waits until the session and conversation are ready
+  useEffect(() => {
+    if (pendingMessage === null || !isOpen || !session || isLoadingHistory) return
+    setPendingMessage(null)
+    handleSendRef.current(pendingMessage)
+  }, [pendingMessage, isOpen, session, isLoadingHistory])
 
-  async function handleSend(text: string) {
-    const trimmed = text.trim()
-    if (!trimmed || isSending || trimmed.length > MAX_MESSAGE_CHARS) return
+  // Send what's queued once a conversation is on screen
+  useEffect(() => {
+    if (!isOpen || !session || isLoadingHistory) return
+    void flushOutboxRef.current()
+  }, [isOpen, session, isLoadingHistory, conversationId])
+
+  // Back online: whatever was waiting out a backoff goes now
+  useEffect(() => {
+    function onOnline() {
+      skipBackoff()
+      void flushOutboxRef.current()
+    }
+    window.addEventListener('online', onOnline)
+    return () => {
+      window.removeEventListener('online', onOnline)
+      if (retryTimerRef.current !== null) window.clearTimeout(retryTimerRef.current)
+    }
+  }, [])
+
+  function setDelivery(id: string, delivery: MessageDelivery) {
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, delivery } : m)))
+  }
 
-    setIsSending(true)
-    setRequestError(null)
 
-    const optimisticUser: ChatMessage = {
+  /**
+   * Queue a message in the outbox and start sending. It shows at once as
+   * pending; flushOutbox delivers it, retrying with backoff if need be.
+   */
+  function handleSend(text: string) {
+    const trimmed = text.trim()
+    if (!session || !trimmed || trimmed.length > maxMessageChars) return
+
+    const entry: OutboxEntry = {
       id: crypto.randomUUID(),
-      conversation_id: sessionId,
-      sender: 'user',
+      conversationId,
       text: trimmed,
-      created_at: new Date().toISOString()
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: 0,
+      failed: false
     }
-
-    setMessages((prev) => [...prev, optimisticUser])
+    addToOutbox(entry)
+    setMessages((prev) => [...prev, toOptimisticMessage(entry)])
     setDraft({ text: '', error: null })
+    emit({ type: 'messageSent', conversationId, text: trimmed })
+    void flushOutbox()
+  }
+
+  /**
+   * Send the oldest queued message of this conversation that is due, then the
+   * next, so they arrive in order. When the oldest is waiting out a backoff,
+   * schedules itself for when it's due instead.
+   */
+  async function flushOutbox() {
+    if (!session || deliveringRef.current) return
+    if (retryTimerRef.current !== null) {
+      window.clearTimeout(retryTimerRef.current)
+      retryTimerRef.current = null
+    }
+
+    const next = outboxFor(conversationId).find((e) => !e.failed)
+    if (!next) return
+    const waitMs = next.nextAttemptAt - Date.now()
+    if (waitMs > 0) {
+      retryTimerRef.current = window.setTimeout(() => void flushOutboxRef.current(), waitMs)
+      return
+    }
+
+    deliveringRef.current = true
+    try {
+      await deliver(session, next)
+    } finally {
+      deliveringRef.current = false
+    }
+    // Through the ref: the conversation or session may have changed meanwhile
+    void flushOutboxRef.current()
+  }
+
+  async function deliver(current: ChatSession, entry: OutboxEntry) {
+    setIsSending(true)
+    setRequestError(null)
+    setDelivery(entry.id, 'pending')
 
+    let partial = ''
     try {
-      const res = await sendMessage({ sessionId, message: trimmed })
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: crypto.randomUUID(),
-          conversation_id: res.sessionId,
-          sender: 'ai',
-          text: res.reply,
+      const res = await streamMessage({
+        token: current.token,
+        sessionId: entry.conversationId,
+        message: entry.text,
+        clientMessageId: entry.id,
+        onDelta: (delta) => {
+          partial += delta
+          setStreamingReply(partial)
+        }
+      })
+      removeFromOutbox(entry.id)
+      setDelivery(entry.id, 'sent')
+      const { reply, messageId } = res
+      if (reply !== null) {
+        const replyMessage: ChatMessage = {
+          id: messageId ?? crypto.randomUUID(),
+          role: 'ai',
+          text: reply,
           created_at: new Date().toISOString()
         }
-      ])
+        // The same message may already have arrived over the subscription
+        setMessages((prev) => upsertMessage(prev, replyMessage))
+        announceReceived(replyMessage)
+      }
+      setConversationStatus(res.status)
       // ALWAYS scroll when USER sends a message
       requestAnimationFrame(() => {
         virtuosoRef.current?.scrollToIndex({
@@ -199,25 +476,85 @@ export default function ChatWidget() {
           behavior: 'auto'
         })
       })
-    } catch(err:any) {
-      console.log(err);
-      console.log(err.error);
-      
-      setRequestError(err.error??'Failed to send message')
+    } catch (caught) {
+      const err = toApiError(caught)
+      // Not stored: try again later, or leave it for the customer to retry
+      if (!wasStored(err)) {
+        const attempts = entry.attempts + 1
+        const failed = !isRetryable(err) || attempts >= MAX_AUTO_ATTEMPTS
+        updateOutboxEntry(entry.id, {
+          attempts,
+          failed,
+          nextAttemptAt: Date.now() + retryDelayMs(attempts, err.retryAfterMs ?? null)
+        })
+        setDelivery(entry.id, failed ? 'failed' : 'pending')
+        if (failed) setRequestError(err.error ?? 'Failed to send message')
+        return
+      }
+      removeFromOutbox(entry.id)
+      setDelivery(entry.id, 'sent')
+
+      // Keep whatever already streamed; the backend stores it as interrupted too
+      if (partial.trim()) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: crypto.randomUUID(),
+            role: 'ai',
+            text: partial.trim(),
+            interrupted: true,
+            created_at: new Date().toISOString()
+          }
+        ])
+      }
+      // Out of budget: the server still stored a canned reply, and says when chat is back
+      const budget = err.status === 429 ? (err.details as BudgetExhaustedResponse) : null
+      const fallbackReply = budget?.reply
+      if (budget && fallbackReply) {
+        setMessages((prev) => upsertMessage(prev, {
+          id: budget.messageId ?? crypto.randomUUID(),
+          role: 'ai',
+          text: fallbackReply,
+          created_at: new Date().toISOString()
+        }))
+      }
+      setRequestError(
+        budget
+          ? `${budget.error} Please try again after ${new Date(budget.resetAt).toLocaleString()}.`
+          : err.error ?? 'Failed to send message'
+      )
     } finally {
+      setStreamingReply(null)
       setIsSending(false)
     }
   }
+
+  function retryMessage(id: string) {
+    updateOutboxEntry(id, { failed: false, attempts: 0, nextAttemptAt: 0 })
+    setDelivery(id, 'pending')
+    setRequestError(null)
+    void flushOutbox()
+  }
+
+  function discardMessage(id: string) {
+    removeFromOutbox(id)
+    setMessages((prev) => prev.filter((m) => m.id !== id))
+  }
+
   const panelClass = isExpanded
     ? 'h-[85vh] w-[min(720px,calc(100vw-2rem))]'
     : 'h-[520px] w-[min(380px,calc(100vw-2rem))]'
 
   return (
-    <div className="fixed bottom-6 right-6 z-50">
+    <div
+      className={`fixed bottom-6 z-50 ${props.position === 'bottom-left' ? 'left-6' : 'right-6'}`}
+      style={props.theme?.fontFamily ? { fontFamily: props.theme.fontFamily } : undefined}
+    >
       {!isOpen ? (
         <button
           className="flex h-14 w-14 items-center justify-center rounded-full bg-zinc-900 text-white shadow-lg"
-          onClick={() => setIsOpen(true)}
+          style={accentStyle}
+          onClick={open}
         >
           <IconChat />
         </button>
@@ -225,29 +562,69 @@ export default function ChatWidget() {
         <div className={`${panelClass} rounded-2xl border border-zinc-200 bg-white shadow-xl flex flex-col`}>
           <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3">
             <div>
-              <div className="text-sm font-semibold">Support</div>
+              <div className="text-sm font-semibold">{branding.title ?? 'Support'}</div>
               <div className="text-xs text-zinc-500">
-                Ask about shipping, returns, orders
+                {conversationStatus === 'human'
+                  ? "You're chatting with our support team"
+                  : conversationStatus === 'pending_human'
+                    ? 'Waiting for a member of our team…'
+                    : branding.subtitle ?? 'Ask about shipping, returns, orders'}
               </div>
+              {session?.customerEmail ? (
+                <div className="text-[11px] text-emerald-700">Verified as {session.customerEmail}</div>
+              ) : (
+                session && !isIdentifying && (
+                  <button className="text-[11px] text-zinc-500 underline" onClick={() => setIsIdentifying(true)}>
+                    Verify your email
+                  </button>
+                )
+              )}
             </div>
             <div className="flex gap-5">
+              <button
+                disabled={!session || isSending}
+                onClick={() => setShowConversations((v) => !v)}
+                title="Conversations"
+                className="disabled:opacity-50"
+              >
+                <IconList />
+              </button>
               <button onClick={() => setIsExpanded((v) => !v)} title="Expand">
                 <IconExpand />
               </button>
-              <button
-                onClick={() => {
-                  setIsOpen(false)
-                  setIsExpanded(false)
-                }}
-                title="Close"
-              >
+              <button onClick={close} title="Close">
                 <IconX />
               </button>
             </div>
           </div>
 
-          <div className="flex-1 py-2">
-            {isLoadingHistory ? (
+          {session && isIdentifying && (
+            <IdentifyPanel
+              key={identifyEmail ?? ''}
+              session={session}
+              codeSentTo={identifyEmail}
+              onVerified={(verified) => {
+                setSession(verified)
+                setIsIdentifying(false)
+                setIdentifyEmail(null)
+                if (verified.customerEmail) emit({ type: 'identified', email: verified.customerEmail })
+              }}
+              onCancel={() => {
+                setIsIdentifying(false)
+                setIdentifyEmail(null)
+              }}
+            />
+          )}
+
+          <div className="flex-1 min-h-0 py-2">
+            {showConversations && session ? (
+              <ConversationList
+                session={session}
+                activeId={conversationId}
+                onSelect={selectConversation}
+                onNew={() => void startNewConversation()}
+              />
+            ) : isLoadingHistory ? (
               <div className="flex h-full items-center justify-center text-sm text-zinc-500">
                 Loading…
               </div>
@@ -261,14 +638,36 @@ export default function ChatWidget() {
                 atBottomStateChange={setAtBottom}
                 itemContent={(_, m) => (
                   <div className="px-4 py-2">
-                    <div className={`flex ${m.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                       <div
-                        className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm ${m.sender === 'user'
+                        className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm ${m.role === 'user'
                           ? 'bg-zinc-900 text-white'
-                          : 'bg-zinc-100 text-zinc-900'
+                          : m.role === 'agent'
+                            ? 'bg-emerald-50 text-zinc-900 ring-1 ring-emerald-200'
+                            : 'bg-zinc-100 text-zinc-900'
                           }`}
+                        style={m.role === 'user' ? accentStyle : undefined}
                       >
+                        {m.role === 'agent' && (
+                          <div className="mb-1 text-[11px] font-medium text-emerald-700">Support team</div>
+                        )}
                         {m.text}
+                        {m.interrupted && (
+                          <div className="mt-1 text-[11px] text-zinc-500">Reply interrupted</div>
+                        )}
+                        {m.delivery === 'pending' && (
+                          <div className="mt-1 text-right text-[11px] text-white/70">Sending…</div>
+                        )}
+                        {m.delivery === 'sent' && (
+                          <div className="mt-1 text-right text-[11px] text-white/70">Sent</div>
+                        )}
+                        {m.delivery === 'failed' && (
+                          <div className="mt-1 flex justify-end gap-2 text-[11px] text-white/80">
+                            <span>Not sent</span>
+                            <button className="underline" onClick={() => retryMessage(m.id)}>Retry</button>
+                            <button className="underline" onClick={() => discardMessage(m.id)}>Discard</button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -276,7 +675,7 @@ export default function ChatWidget() {
                 components={{
                   EmptyPlaceholder: () => (
                     <div className="px-4 py-6">
-                      <div className="text-sm font-medium">Hi! How can I help?</div>
+                      <div className="text-sm font-medium">{greeting}</div>
                       <div className="mt-3 flex flex-wrap gap-2">
                         {suggested.map((q) => (
                           <button
@@ -295,7 +694,7 @@ export default function ChatWidget() {
             )}
           </div>
 
-          <div className="border-t border-zinc-200 px-4 py-4">
+          <div className={`border-t border-zinc-200 px-4 py-4 ${showConversations ? 'hidden' : ''}`}>
             {requestError && (
               <div className="mb-2 text-xs text-red-600">{requestError}</div>
             )}
@@ -309,7 +708,7 @@ export default function ChatWidget() {
                 onKeyDown={(e) => {
                   if (e.key === 'Enter' && !e.shiftKey) {
                     e.preventDefault()
-                    void handleSend(draft.text)
+                    handleSend(draft.text)
                   }
                 }}
                 rows={1}
@@ -317,9 +716,10 @@ export default function ChatWidget() {
                 placeholder="Type a message…"
               />
               <button
-                disabled={isSending || !!draft.error || !draft.text.trim()}
-                onClick={() => void handleSend(draft.text)}
+                disabled={!!draft.error || !draft.text.trim()}
+                onClick={() => handleSend(draft.text)}
                 className="rounded-xl bg-zinc-900 px-4 text-white disabled:opacity-50"
+                style={accentStyle}
               >
                 Send
               </button>
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react'
+import { fetchConversations } from './api'
+import type { ChatSession, VisitorConversation } from './types'
+
+function formatActivity(iso: string) {
+  const date = new Date(iso)
+  const sameDay = date.toDateString() === new Date().toDateString()
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+const STATUS_LABELS: Record<VisitorConversation['status'], string> = {
+  ai: 'Open',
+  pending_human: 'Waiting for team',
+  human: 'With our team',
+  closed: 'Resolved'
+}
+
+/**
+ * The visitor's past conversations, newest first. Picking one switches the
+ * widget to it; "New conversation" starts a fresh thread.
+ */
+export default function ConversationList(props: {
+  session: ChatSession
+  activeId: string
+  onSelect: (conversationId: string) => void
+  onNew: () => void
+}) {
+  const { session } = props
+  const [conversations, setConversations] = useState<VisitorConversation[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let active = true
+    fetchConversations({ token: session.token })
+      .then((res) => {
+        if (!active) return
+        setConversations(res.conversations)
+        setNextCursor(res.nextCursor)
+      })
+      .catch(() => {
+        if (active) setError('Failed to load conversations')
+      })
+      .finally(() => {
+        if (active) setIsLoading(false)
+      })
+    return () => { active = false }
+  }, [session.token])
+
+  async function loadMore() {
+    if (!nextCursor || isLoading) return
+    setIsLoading(true)
+    try {
+      const res = await fetchConversations({ token: session.token, cursor: nextCursor })
+      setConversations((prev) => [...prev, ...res.conversations])
+      setNextCursor(res.nextCursor)
+    } catch {
+      setError('Failed to load conversations')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="px-4 pb-2">
+        <button
+          className="w-full rounded-xl border border-zinc-200 px-3 py-2 text-sm font-medium hover:bg-zinc-50"
+          onClick={props.onNew}
+        >
+          + New conversation
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {conversations.map((c) => (
+          <button
+            key={c.id}
+            onClick={() => props.onSelect(c.id)}
+            className={`block w-full border-b border-zinc-100 px-4 py-3 text-left hover:bg-zinc-50 ${c.id === props.activeId ? 'bg-zinc-50' : ''}`}
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <div className="truncate text-sm font-medium">{c.title ?? 'New conversation'}</div>
+              <div className="shrink-0 text-[11px] text-zinc-500">{formatActivity(c.last_activity_at)}</div>
+            </div>
+            <div className="mt-0.5 text-[11px] text-zinc-500">{STATUS_LABELS[c.status]}</div>
+          </button>
+        ))}
+        {isLoading && <div className="px-4 py-3 text-sm text-zinc-500">Loading…</div>}
+        {error && <div className="px-4 py-3 text-xs text-red-600">{error}</div>}
+        {!isLoading && nextCursor && (
+          <button className="w-full px-4 py-3 text-xs text-zinc-500 underline" onClick={() => void loadMore()}>
+            Show older conversations
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
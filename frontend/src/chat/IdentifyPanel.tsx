@@ -0,0 +1,110 @@
+import { useState } from 'react'
+import { requestVerificationCode, verifyEmailCode } from './api'
+import type { ChatSession } from './types'
+
+function errorText(err: unknown, fallback: string) {
+  if (typeof err === 'object' && err && 'error' in err) return String((err as { error: unknown }).error)
+  return fallback
+}
+
+/**
+ * Two-step email verification: send a code, then enter it. Linking the chat
+ * to a verified email lets the customer reach their conversations again later.
+ * codeSentTo skips the first step when the host page already had a code sent
+ * (SpurChat.identify).
+ */
+export default function IdentifyPanel(props: {
+  session: ChatSession
+  codeSentTo?: string | null
+  onVerified: (session: ChatSession) => void
+  onCancel: () => void
+}) {
+  const [email, setEmail] = useState(props.codeSentTo ?? '')
+  const [code, setCode] = useState('')
+  const [codeSent, setCodeSent] = useState(!!props.codeSentTo)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSendCode() {
+    if (!email.trim() || isBusy) return
+    setIsBusy(true)
+    setError(null)
+    try {
+      await requestVerificationCode({ token: props.session.token, email: email.trim() })
+      setCodeSent(true)
+    } catch (err) {
+      setError(errorText(err, 'Failed to send the code'))
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  async function handleVerify() {
+    if (!code.trim() || isBusy) return
+    setIsBusy(true)
+    setError(null)
+    try {
+      props.onVerified(await verifyEmailCode({ token: props.session.token, email: email.trim(), code: code.trim() }))
+    } catch (err) {
+      setError(errorText(err, 'Verification failed'))
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="border-b border-zinc-200 bg-zinc-50 px-4 py-3 text-sm">
+      {!codeSent ? (
+        <>
+          <div className="mb-2 text-xs text-zinc-600">Verify your email to keep this conversation linked to you.</div>
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && void handleSendCode()}
+              placeholder="you@example.com"
+              className="flex-1 rounded-lg border border-zinc-200 px-2 py-1.5"
+            />
+            <button
+              disabled={isBusy || !email.trim()}
+              onClick={() => void handleSendCode()}
+              className="rounded-lg bg-zinc-900 px-3 text-white disabled:opacity-50"
+            >
+              Send code
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="mb-2 text-xs text-zinc-600">Enter the 6-digit code we sent to {email.trim()}.</div>
+          <div className="flex gap-2">
+            <input
+              inputMode="numeric"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              onKeyDown={(e) => e.key === 'Enter' && void handleVerify()}
+              placeholder="123456"
+              className="flex-1 rounded-lg border border-zinc-200 px-2 py-1.5 tracking-widest"
+            />
+            <button
+              disabled={isBusy || code.length !== 6}
+              onClick={() => void handleVerify()}
+              className="rounded-lg bg-zinc-900 px-3 text-white disabled:opacity-50"
+            >
+              Verify
+            </button>
+          </div>
+          <button className="mt-1 text-xs text-zinc-500 underline" onClick={() => setCodeSent(false)}>
+            Use a different email
+          </button>
+        </>
+      )}
+      {error && <div className="mt-2 text-xs text-red-600">{error}</div>}
+      <button className="mt-2 block text-xs text-zinc-500" onClick={props.onCancel}>
+        Not now
+      </button>
+    </div>
+  )
+}
@@ -1,8 +1,43 @@
-import type { HistoryResponse, SendMessageResponse } from './types'
+import type {
+  ApiError,
+  ChatSession,
+  HistoryResponse,
+  SendMessageResponse,
+  SessionResponse,
+  StreamDoneResponse,
+  VisitorConversation,
+  VisitorConversationsResponse
+} from './types'
+import { clearSession, getLegacySessionId, loadSession, saveSession } from './storage'
 
-export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL as string | undefined) ?? 'http://localhost:3001'
+// Where the backend lives and which of its stores this widget belongs to. Build-time
+// defaults for the demo app; the embed script sets both from SpurChat.init (configureApi).
+const apiConfig = {
+  baseUrl: (import.meta.env.VITE_API_BASE_URL as string | undefined) ?? 'http://localhost:3001',
+  storeKey: (import.meta.env.VITE_STORE_KEY as string | undefined) ?? 'default'
+}
+
+export function configureApi(config: { baseUrl?: string; storeKey?: string }) {
+  if (config.baseUrl) apiConfig.baseUrl = config.baseUrl.replace(/\/+$/, '')
+  if (config.storeKey) apiConfig.storeKey = config.storeKey
+}
+
+/** Absolute URL of a backend path such as /api/v1/health. */
+export function apiUrl(path: string) {
+  return apiConfig.baseUrl + path
+}
 
-async function fetchJson<T>(input: RequestInfo | URL, init?: RequestInit) {
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(res: Response) {
+  const raw = res.headers.get('retry-after')
+  if (!raw) return null
+  const seconds = Number(raw)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const at = Date.parse(raw)
+  return Number.isNaN(at) ? null : Math.max(0, at - Date.now())
+}
+
+export async function fetchJson<T>(input: RequestInfo | URL, init?: RequestInit) {
   const res = await fetch(input, init)
   const contentType = res.headers.get('content-type') ?? ''
 
@@ -21,46 +56,244 @@ async function fetchJson<T>(input: RequestInfo | URL, init?: RequestInit) {
       error: message,
       status: res.status,
       statusText: res.statusText,
-      details: body
-    } as const
+      details: body,
+      retryAfterMs: retryAfterMs(res)
+    } satisfies ApiError
   }
 
   return body as T
 }
 
-export async function fetchHistory(args: { sessionId: string; cursor?: string }) {
-  const url = new URL(API_BASE_URL + '/api/v1/chat/history')
+function toSession(res: SessionResponse): ChatSession {
+  const session = {
+    token: res.token,
+    sessionId: res.sessionId,
+    customerEmail: res.customer?.email ?? null,
+    store: res.store
+  }
+  saveSession(session)
+  return session
+}
+
+/**
+ * Get a session token for this browser: refresh the stored one, or ask for a
+ * new one (offering the id an older widget version stored, so its history
+ * carries over). A stored token the backend rejects is discarded; one issued
+ * for another store is replaced by a new session.
+ */
+export async function ensureSession(): Promise<ChatSession> {
+  const stored = loadSession()
+  if (stored) {
+    try {
+      return toSession(await fetchJson<SessionResponse>(apiUrl('/api/v1/chat/session'), {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${stored.token}`, 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify({ storeKey: apiConfig.storeKey })
+      }))
+    } catch (err) {
+      // Offline or server trouble: keep using the stored token and let later calls surface the error
+      if ((err as { status?: number }).status !== 401) return stored
+      clearSession()
+    }
+  }
+
+  const legacyId = getLegacySessionId()
+  return toSession(await fetchJson<SessionResponse>(apiUrl('/api/v1/chat/session'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({ storeKey: apiConfig.storeKey, ...(legacyId ? { sessionId: legacyId } : {}) })
+  }))
+}
+
+/**
+ * Email a verification code to link this chat to the customer's email.
+ */
+export async function requestVerificationCode(args: { token: string; email: string }) {
+  return await fetchJson<{ ok: true }>(apiUrl('/api/v1/chat/session/identify'), {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${args.token}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json'
+    },
+    body: JSON.stringify({ email: args.email })
+  })
+}
+
+/**
+ * Check the emailed code; on success the returned session carries the customer.
+ */
+export async function verifyEmailCode(args: { token: string; email: string; code: string }) {
+  return toSession(await fetchJson<SessionResponse>(apiUrl('/api/v1/chat/session/verify'), {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${args.token}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json'
+    },
+    body: JSON.stringify({ email: args.email, code: args.code })
+  }))
+}
+
+export async function fetchConversations(args: { token: string; cursor?: string }) {
+  const url = new URL(apiUrl('/api/v1/chat/visitor/conversations'))
+  if (args.cursor) url.searchParams.set('cursor', args.cursor)
+
+  return await fetchJson<VisitorConversationsResponse>(url, {
+    method: 'GET',
+    headers: {
+      Authorization: `Bearer ${args.token}`,
+      Accept: 'application/json'
+    }
+  })
+}
+
+export async function createConversation(args: { token: string }) {
+  return await fetchJson<{ conversation: VisitorConversation }>(apiUrl('/api/v1/chat/visitor/conversations'), {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${args.token}`,
+      Accept: 'application/json'
+    }
+  })
+}
+
+export async function fetchHistory(args: { token: string; sessionId: string; cursor?: string }) {
+  const url = new URL(apiUrl('/api/v1/chat/history'))
   url.searchParams.set('sessionId', args.sessionId)
   if (args.cursor) url.searchParams.set('cursor', args.cursor)
 
   return await fetchJson<HistoryResponse>(url, {
     method: 'GET',
     headers: {
+      Authorization: `Bearer ${args.token}`,
       Accept: 'application/json'
     }
   })
 }
 
 export async function sendMessage(args: {
+  token: string
   sessionId: string
   message: string
+  clientMessageId?: string
 }) {
-  return await fetchJson<SendMessageResponse>(API_BASE_URL + '/api/v1/chat/message', {
+  return await fetchJson<SendMessageResponse>(apiUrl('/api/v1/chat/message'), {
     method: 'POST',
     headers: {
+      Authorization: `Bearer ${args.token}`,
       'Content-Type': 'application/json',
       Accept: 'application/json'
     },
     body: JSON.stringify({
       message: args.message,
-      sessionId: args.sessionId
+      sessionId: args.sessionId,
+      clientMessageId: args.clientMessageId
     })
   })
 }
 
+/**
+ * POST a message to the streaming endpoint and consume its Server-Sent Events.
+ * onDelta is called with each chunk of the AI reply as it arrives; the promise
+ * resolves with the persisted reply once the server sends "done".
+ *
+ * Errors are thrown in the same { error, status } shape as fetchJson (an
+ * ApiError); status is 0 when the backend couldn't be reached, and 200 when
+ * the stream broke after it started.
+ */
+export async function streamMessage(args: {
+  token: string
+  sessionId: string
+  message: string
+  clientMessageId?: string
+  onDelta: (text: string) => void
+  signal?: AbortSignal
+}) {
+  const res = await fetch(apiUrl('/api/v1/chat/message/stream'), {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${args.token}`,
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream'
+    },
+    body: JSON.stringify({
+      message: args.message,
+      sessionId: args.sessionId,
+      clientMessageId: args.clientMessageId
+    }),
+    signal: args.signal
+  }).catch((err: unknown) => {
+    if (args.signal?.aborted) throw err
+    throw { error: "Couldn't reach the server", status: 0, statusText: '', details: null, retryAfterMs: null } satisfies ApiError
+  })
+
+  if (!res.ok || !res.body) {
+    // Validation / rate-limit failures come back as plain JSON before streaming starts
+    const body = await res.json().catch(() => null)
+    throw {
+      error: body && typeof body.error === 'string' ? body.error : 'Request failed',
+      status: res.status,
+      statusText: res.statusText,
+      details: body,
+      retryAfterMs: retryAfterMs(res)
+    } satisfies ApiError
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  const connectionLost = {
+    error: 'Connection lost before the reply finished',
+    status: res.status,
+    statusText: res.statusText,
+    details: null,
+    retryAfterMs: null
+  } satisfies ApiError
+
+  while (true) {
+    const { value, done } = await reader.read().catch((err: unknown) => {
+      if (args.signal?.aborted) throw err
+      throw connectionLost
+    })
+    if (done) break
+    buffer += value
+
+    // Events are separated by a blank line; keep any trailing partial frame
+    let sep = buffer.indexOf('\n\n')
+    while (sep !== -1) {
+      const frame = buffer.slice(0, sep)
+      buffer = buffer.slice(sep + 2)
+      sep = buffer.indexOf('\n\n')
+
+      let event = 'message'
+      let data = ''
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data += line.slice(5).trim()
+      }
+      if (!data) continue
+      const payload = JSON.parse(data)
+
+      if (event === 'delta') args.onDelta(String(payload.text ?? ''))
+      else if (event === 'done') return payload as StreamDoneResponse
+      else if (event === 'error') {
+        throw {
+          error: String(payload.error ?? 'Request failed'),
+          status: res.status,
+          statusText: res.statusText,
+          details: payload,
+          retryAfterMs: null
+        } satisfies ApiError
+      }
+    }
+  }
+
+  throw connectionLost
+}
+
 export async function waitForBackend(maxWaitMs = 90_000): Promise<void> {
   const start = Date.now()
-  const healthUrl = `${API_BASE_URL}/api/v1/health`
+  const healthUrl = apiUrl('/api/v1/health')
   let delay = 500
 
   while (Date.now() - start < maxWaitMs) {
@@ -0,0 +1,73 @@
+import type { ApiError, OutboxEntry } from './types'
+import { loadOutbox, saveOutbox } from './storage'
+
+/**
+ * The widget's outbox: messages the customer sent that the backend hasn't
+ * confirmed yet. It lives in localStorage, so a dropped connection or a reload
+ * doesn't lose them. Every attempt carries the message's client id, which the
+ * backend uses to store it only once however often it's retried.
+ */
+
+// Automatic attempts before a message is marked failed
+export const MAX_AUTO_ATTEMPTS = 5
+const BASE_RETRY_DELAY_MS = 2000
+const MAX_RETRY_DELAY_MS = 60_000
+
+/** Queued messages of one conversation, oldest first. */
+export function outboxFor(conversationId: string) {
+  return loadOutbox().filter((e) => e.conversationId === conversationId)
+}
+
+export function addToOutbox(entry: OutboxEntry) {
+  saveOutbox([...loadOutbox(), entry])
+}
+
+export function updateOutboxEntry(id: string, changes: Partial<OutboxEntry>) {
+  saveOutbox(loadOutbox().map((e) => (e.id === id ? { ...e, ...changes } : e)))
+}
+
+export function removeFromOutbox(id: string) {
+  saveOutbox(loadOutbox().filter((e) => e.id !== id))
+}
+
+/** Make every queued message due now, e.g. when the browser comes back online. */
+export function skipBackoff() {
+  saveOutbox(loadOutbox().map((e) => (e.failed ? e : { ...e, nextAttemptAt: 0 })))
+}
+
+/**
+ * A send failure as an ApiError. The api helpers only throw ApiErrors;
+ * anything else is treated like a lost connection, so the message stays
+ * queued.
+ */
+export function toApiError(err: unknown): ApiError {
+  if (err && typeof err === 'object' && typeof (err as { status?: unknown }).status === 'number') return err as ApiError
+  return { error: 'Failed to send message', status: 0, statusText: '', details: null, retryAfterMs: null }
+}
+
+/**
+ * Whether the backend stored the message even though the request failed: the
+ * reply stream broke after it started, or a used-up daily budget was answered
+ * with a canned reply.
+ */
+export function wasStored(err: ApiError) {
+  if (err.status >= 200 && err.status < 300) return true
+  return err.status === 429 && typeof (err.details as { resetAt?: unknown } | null)?.resetAt === 'string'
+}
+
+/**
+ * Whether trying again later may work: the backend was unreachable,
+ * overloaded or rate limiting, or (409) still answering this or an earlier message.
+ */
+export function isRetryable(err: ApiError) {
+  return err.status === 0 || err.status === 408 || err.status === 409 || err.status === 429 || err.status >= 500
+}
+
+/**
+ * How long to wait before the next attempt: exponential backoff with jitter,
+ * but never less than the server's Retry-After.
+ */
+export function retryDelayMs(attempts: number, retryAfterMs: number | null) {
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1))
+  return Math.max(backoff / 2 + Math.random() * (backoff / 2), retryAfterMs ?? 0)
+}
@@ -1,10 +1,67 @@
-const SESSION_ID_KEY = 'spur_chat_session_id'
+import type { ChatSession, OutboxEntry } from './types'
 
-export function getOrCreateSessionId() {
-  const existing = localStorage.getItem(SESSION_ID_KEY)
-  if (existing) return existing
+const SESSION_KEY = 'spur_chat_session'
+const ACTIVE_CONVERSATION_KEY = 'spur_chat_active_conversation'
+const OUTBOX_KEY = 'spur_chat_outbox'
+// Session id picked by older versions of the widget; handed to the backend once so it can adopt it
+const LEGACY_SESSION_ID_KEY = 'spur_chat_session_id'
 
-  const id = crypto.randomUUID()
-  localStorage.setItem(SESSION_ID_KEY, id)
-  return id
+export function loadSession(): ChatSession | null {
+  const raw = localStorage.getItem(SESSION_KEY)
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw) as Partial<ChatSession>
+    if (typeof parsed.token === 'string' && typeof parsed.sessionId === 'string') {
+      return {
+        token: parsed.token,
+        sessionId: parsed.sessionId,
+        customerEmail: parsed.customerEmail ?? null,
+        store: parsed.store ?? null
+      }
+    }
+  } catch {
+    // fall through to no session
+  }
+  return null
+}
+
+export function saveSession(session: ChatSession) {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  localStorage.removeItem(LEGACY_SESSION_ID_KEY)
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY)
+  localStorage.removeItem(ACTIVE_CONVERSATION_KEY)
+  // Queued messages belong to the old session's conversations and can't be sent any more
+  localStorage.removeItem(OUTBOX_KEY)
+}
+
+// The conversation the widget last showed; null means the session's first conversation
+export function loadActiveConversationId() {
+  return localStorage.getItem(ACTIVE_CONVERSATION_KEY)
+}
+
+export function saveActiveConversationId(conversationId: string) {
+  localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversationId)
+}
+
+export function getLegacySessionId() {
+  return localStorage.getItem(LEGACY_SESSION_ID_KEY)
+}
+
+export function loadOutbox(): OutboxEntry[] {
+  const raw = localStorage.getItem(OUTBOX_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed) ? (parsed as OutboxEntry[]) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveOutbox(entries: OutboxEntry[]) {
+  if (entries.length === 0) localStorage.removeItem(OUTBOX_KEY)
+  else localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries))
 }
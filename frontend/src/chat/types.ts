@@ -1,19 +1,155 @@
-export type ChatSender = 'user' | 'ai'
+export type ChatSender = 'user' | 'ai' | 'agent'
 
+// Who is answering the conversation; 'pending_human' / 'human' mean a person, not the AI
+export type ConversationStatus = 'ai' | 'pending_human' | 'human' | 'closed'
+
+// Where one of the customer's own messages stands: queued or being sent, given up on
+// until they retry it, or stored by the backend. Messages loaded from history have none.
+export type MessageDelivery = 'pending' | 'failed' | 'sent'
+
+// A message as the backend returns it (GET /history, the subscribe feed), or a local copy of one
 export type ChatMessage = {
   id: string
-  conversation_id: string
-  sender: ChatSender
+  role: ChatSender
   text: string
+  interrupted?: boolean
+  // The id the sending client generated, for messages sent with one
+  client_message_id?: string | null
+  delivery?: MessageDelivery
   created_at: string
 }
 
+// A message in the outbox (outbox.ts), waiting for the backend to confirm it
+export type OutboxEntry = {
+  // Also the id of its optimistic copy and the clientMessageId it's sent with
+  id: string
+  conversationId: string
+  text: string
+  createdAt: string
+  attempts: number
+  // Earliest time (ms since epoch) for the next automatic attempt
+  nextAttemptAt: number
+  // Out of automatic attempts, or rejected outright; only a manual retry sends it again
+  failed: boolean
+}
+
+// What api.ts throws when a request fails; status 0 means the backend couldn't be reached
+export type ApiError = {
+  error: string
+  status: number
+  statusText: string
+  details: unknown
+  // From the Retry-After header, when the response had one
+  retryAfterMs: number | null
+}
+
 export type HistoryResponse = {
   messages: ChatMessage[]
   nextCursor: string | null
+  status: ConversationStatus
 }
 
 export type SendMessageResponse = {
-  reply: string
+  // null when a human agent owns the conversation and will answer instead
+  reply: string | null
+  messageId: string | null
+  sessionId: string
+  status: ConversationStatus
+}
+
+export type StreamDoneResponse = {
+  reply: string | null
+  sessionId: string
+  messageId: string | null
+  status: ConversationStatus
+}
+
+// 429 body when a daily chat budget is used up; reply is a canned answer that was already stored
+export type BudgetExhaustedResponse = StreamDoneResponse & {
+  error: string
+  resetAt: string
+}
+
+// A message pushed over GET /subscribe; client_message_id matches the sender's optimistic copy
+export type PushedMessage = ChatMessage & {
+  client_message_id: string | null
+}
+
+export type StatusEvent = {
+  status: ConversationStatus
+  assigned_operator: string | null
+}
+
+// How a store wants the widget to look; anything unset keeps the widget's default
+export type StoreBranding = {
+  title?: string
+  subtitle?: string
+  greeting?: string
+  accentColor?: string
+  suggestions?: string[]
+}
+
+export type StoreConfig = {
+  key: string
+  name: string
+  branding: StoreBranding
+}
+
+// Signed session token from POST /session; the token, not the id, is what grants access
+export type ChatSession = {
+  token: string
+  sessionId: string
+  customerEmail: string | null
+  store: StoreConfig | null
+}
+
+export type SessionResponse = {
+  token: string
   sessionId: string
+  expiresAt: string
+  customer: { email: string } | null
+  store: StoreConfig
+}
+
+// One entry in the widget's conversation list; title is the start of the first message
+export type VisitorConversation = {
+  id: string
+  status: ConversationStatus
+  title: string | null
+  message_count: number
+  last_activity_at: string
+  created_at: string
+}
+
+export type VisitorConversationsResponse = {
+  conversations: VisitorConversation[]
+  nextCursor: string | null
+}
+
+// Corner of the page the widget sits in
+export type WidgetPosition = 'bottom-right' | 'bottom-left'
+
+// Host-page styling; overrides the store's branding
+export type WidgetTheme = {
+  accentColor?: string
+  fontFamily?: string
+}
+
+// Reported to the host page (SpurChat.on in the embed build)
+export type ChatWidgetEvent =
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'messageSent'; conversationId: string; text: string }
+  | { type: 'messageReceived'; message: ChatMessage }
+  | { type: 'identified'; email: string }
+  | { type: 'error'; error: string }
+
+// What the host page can do with a mounted widget
+export type ChatWidgetHandle = {
+  open: () => void
+  close: () => void
+  // Opens the widget and sends once the conversation has loaded
+  sendMessage: (text: string) => void
+  // Opens the widget and emails the customer a verification code; resolves once it's sent
+  identify: (email: string) => Promise<void>
 }
@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react'
+import { apiUrl } from './api'
+import type { ChatMessage, PushedMessage, StatusEvent } from './types'
+
+/**
+ * Insert or replace a message in a chronological list.
+ *
+ * A pushed message replaces the entry with the same server id, or the
+ * optimistic entry whose id is its client_message_id (which then shows as
+ * sent); otherwise it's appended. This keeps pushes, POST responses and
+ * optimistic updates from duplicating.
+ */
+export function upsertMessage(prev: ChatMessage[], incoming: ChatMessage & { client_message_id?: string | null }) {
+  const { client_message_id: clientId, ...message } = incoming
+  const idx = prev.findIndex((m) => m.id === message.id || (!!clientId && m.id === clientId))
+  if (idx === -1) return [...prev, message]
+  const next = prev.slice()
+  next[idx] = prev[idx]?.id === clientId ? { ...message, delivery: 'sent' } : message
+  return next
+}
+
+/**
+ * Subscribe to live events for a session over Server-Sent Events.
+ *
+ * EventSource reconnects on its own and sends the last message id back, so
+ * the backend replays anything missed in between. Handlers are read through a
+ * ref, so passing new callbacks each render doesn't reopen the connection.
+ */
+export function useChatSubscription(args: {
+  token: string
+  sessionId: string
+  // Operators watch any conversation through their own endpoint
+  scope?: 'session' | 'operator'
+  // The operator's store; session tokens already name theirs
+  storeKey?: string
+  enabled: boolean
+  onMessage: (message: PushedMessage) => void
+  onStatus?: (event: StatusEvent) => void
+}) {
+  const { token, sessionId, storeKey, enabled } = args
+  const scope = args.scope ?? 'session'
+  const handlersRef = useRef({ onMessage: args.onMessage, onStatus: args.onStatus })
+
+  useEffect(() => {
+    handlersRef.current = { onMessage: args.onMessage, onStatus: args.onStatus }
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const url = scope === 'operator'
+      ? new URL(apiUrl(`/api/v1/chat/conversations/${sessionId}/subscribe`))
+      : new URL(apiUrl('/api/v1/chat/subscribe'))
+    if (scope === 'session') url.searchParams.set('sessionId', sessionId)
+    // EventSource can't send an Authorization (or X-Store-Key) header
+    url.searchParams.set('token', token)
+    if (storeKey) url.searchParams.set('store', storeKey)
+    const source = new EventSource(url)
+
+    source.addEventListener('message', (e) => {
+      handlersRef.current.onMessage(JSON.parse(e.data) as PushedMessage)
+    })
+    source.addEventListener('status', (e) => {
+      handlersRef.current.onStatus?.(JSON.parse(e.data) as StatusEvent)
+    })
+
+    return () => source.close()
+  }, [token, sessionId, scope, storeKey, enabled])
+}
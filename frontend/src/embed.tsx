@@ -0,0 +1,139 @@
+import { createRef, type RefObject } from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import { flushSync } from 'react-dom'
+import widgetCss from './index.css?inline'
+import ChatWidget from './chat/ChatWidget'
+import { configureApi } from './chat/api'
+import type { ChatWidgetEvent, ChatWidgetHandle, WidgetPosition, WidgetTheme } from './chat/types'
+
+/**
+ * Entry point of the embeddable build (vite.embed.config.ts): one script a
+ * storefront adds to its pages, exposing window.SpurChat.
+ *
+ *   <script src="https://cdn.example.com/spur-chat.js"></script>
+ *   <script>SpurChat.init({ apiBaseUrl: 'https://support.example.com', storeKey: 'acme' })</script>
+ *
+ * The widget renders inside a shadow root, so the page's CSS doesn't reach it
+ * and its Tailwind styles don't leak into the page.
+ */
+
+export type SpurChatOptions = {
+  apiBaseUrl: string
+  storeKey?: string
+  theme?: WidgetTheme
+  greeting?: string
+  suggestedQuestions?: string[]
+  position?: WidgetPosition
+  maxMessageChars?: number
+}
+
+type EventType = ChatWidgetEvent['type']
+type EventHandler<T extends EventType> = (event: Extract<ChatWidgetEvent, { type: T }>) => void
+
+// The widget's handle changes as it re-renders, so it's read through the ref on every call
+type Mounted = { host: HTMLElement; root: Root; widget: RefObject<ChatWidgetHandle | null> }
+
+const HOST_ID = 'spur-chat'
+
+let mounted: Mounted | null = null
+const handlers = new Map<EventType, Set<(event: ChatWidgetEvent) => void>>()
+
+function emit(event: ChatWidgetEvent) {
+  for (const handler of handlers.get(event.type) ?? []) {
+    try {
+      handler(event)
+    } catch (err) {
+      console.error('SpurChat event handler failed', err)
+    }
+  }
+}
+
+/**
+ * Tailwind registers its internal variables with @property, which is ignored
+ * inside a shadow root; those rules have to live in the page's stylesheet.
+ */
+function installPropertyRules() {
+  if (document.getElementById(`${HOST_ID}-properties`)) return
+  const rules = widgetCss.match(/@property[^{]+\{[^}]*\}/g)
+  if (!rules) return
+  const style = document.createElement('style')
+  style.id = `${HOST_ID}-properties`
+  style.textContent = rules.join('\n')
+  document.head.appendChild(style)
+}
+
+function requireWidget(method: string) {
+  const widget = mounted?.widget.current
+  if (!widget) throw new Error(`SpurChat.${method}() called before SpurChat.init()`)
+  return widget
+}
+
+function destroy() {
+  if (!mounted) return
+  mounted.root.unmount()
+  mounted.host.remove()
+  mounted = null
+}
+
+/** Mount the widget (replacing one mounted earlier) with the given settings. */
+function init(options: SpurChatOptions) {
+  if (!options?.apiBaseUrl) throw new Error('SpurChat.init() needs apiBaseUrl')
+  destroy()
+  configureApi({ baseUrl: options.apiBaseUrl, storeKey: options.storeKey })
+  installPropertyRules()
+
+  const host = document.createElement('div')
+  host.id = HOST_ID
+  document.body.appendChild(host)
+  const shadow = host.attachShadow({ mode: 'open' })
+  const style = document.createElement('style')
+  style.textContent = widgetCss
+  const container = document.createElement('div')
+  shadow.append(style, container)
+
+  const ref = createRef<ChatWidgetHandle>()
+  const root = createRoot(container)
+  // Render synchronously so the methods below work as soon as init returns
+  flushSync(() => {
+    root.render(
+      <ChatWidget
+        ref={ref}
+        greeting={options.greeting}
+        suggestedQuestions={options.suggestedQuestions}
+        theme={options.theme}
+        position={options.position}
+        maxMessageChars={options.maxMessageChars}
+        onEvent={emit}
+      />
+    )
+  })
+  if (!ref.current) throw new Error('SpurChat failed to mount')
+  mounted = { host, root, widget: ref }
+}
+
+const SpurChat = {
+  init,
+  destroy,
+  open: () => requireWidget('open').open(),
+  close: () => requireWidget('close').close(),
+  sendMessage: (text: string) => requireWidget('sendMessage').sendMessage(text),
+  identify: (email: string) => requireWidget('identify').identify(email),
+  /** Subscribe to a widget event; returns a function that unsubscribes. */
+  on<T extends EventType>(type: T, handler: EventHandler<T>) {
+    const set = handlers.get(type) ?? new Set()
+    set.add(handler as (event: ChatWidgetEvent) => void)
+    handlers.set(type, set)
+    return () => SpurChat.off(type, handler)
+  },
+  off<T extends EventType>(type: T, handler: EventHandler<T>) {
+    handlers.get(type)?.delete(handler as (event: ChatWidgetEvent) => void)
+  }
+}
+
+declare global {
+  interface Window {
+    SpurChat: typeof SpurChat
+  }
+}
+
+window.SpurChat = SpurChat
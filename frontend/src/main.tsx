@@ -2,9 +2,13 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import OperatorConsole from './operator/OperatorConsole.tsx'
+
+// Minimal path-based routing: /operator is the support inbox, anything else the storefront demo
+const isOperatorRoute = window.location.pathname.startsWith('/operator')
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isOperatorRoute ? <OperatorConsole /> : <App />}
   </StrictMode>,
 )
@@ -0,0 +1,493 @@
+import { useEffect, useRef, useState } from 'react'
+import { Virtuoso, type VirtuosoHandle } from 'react-virtuoso'
+import type { ChatMessage, ConversationStatus } from '../chat/types'
+import type { ConversationSummary, OperatorConversation, OperatorCredentials } from './types'
+import { conversationAction, fetchConversations, fetchTranscript, sendOperatorReply } from './api'
+import { upsertMessage, useChatSubscription } from '../chat/useChatSubscription'
+import { clearOperatorCredentials, loadOperatorCredentials, saveOperatorCredentials } from './storage'
+
+const FIRST_INDEX = 100_000
+const LIST_POLL_MS = 15_000
+
+type InboxFilter = 'all' | 'waiting' | 'mine' | 'ai' | 'closed'
+
+const FILTERS: Array<{ id: InboxFilter; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'waiting', label: 'Waiting' },
+  { id: 'mine', label: 'Mine' },
+  { id: 'ai', label: 'AI' },
+  { id: 'closed', label: 'Closed' }
+]
+
+function filterToQuery(filter: InboxFilter): { statuses?: ConversationStatus[]; mine?: boolean } {
+  switch (filter) {
+    case 'waiting':
+      return { statuses: ['pending_human'] }
+    case 'mine':
+      return { statuses: ['human'], mine: true }
+    case 'ai':
+      return { statuses: ['ai'] }
+    case 'closed':
+      return { statuses: ['closed'] }
+    default:
+      return {}
+  }
+}
+
+const STATUS_LABEL: Record<ConversationStatus, string> = {
+  ai: 'AI',
+  pending_human: 'Waiting',
+  human: 'Human',
+  closed: 'Closed'
+}
+
+const STATUS_CLASS: Record<ConversationStatus, string> = {
+  ai: 'bg-zinc-100 text-zinc-700',
+  pending_human: 'bg-amber-100 text-amber-800',
+  human: 'bg-emerald-100 text-emerald-800',
+  closed: 'bg-zinc-200 text-zinc-500'
+}
+
+function StatusBadge({ status }: { status: ConversationStatus }) {
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${STATUS_CLASS[status]}`}>
+      {STATUS_LABEL[status]}
+    </span>
+  )
+}
+
+function formatTime(iso: string) {
+  const d = new Date(iso)
+  const sameDay = d.toDateString() === new Date().toDateString()
+  return sameDay
+    ? d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : d.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+function errorText(err: unknown, fallback: string) {
+  if (typeof err === 'object' && err && 'error' in err) return String((err as { error: unknown }).error)
+  return fallback
+}
+
+function OperatorLogin({ onSignIn }: { onSignIn: (creds: OperatorCredentials) => void }) {
+  const [name, setName] = useState('')
+  const [token, setToken] = useState('')
+  const [storeKey, setStoreKey] = useState('default')
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-zinc-50">
+      <form
+        className="w-80 rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (name.trim() && token.trim() && storeKey.trim()) {
+            onSignIn({ name: name.trim(), token: token.trim(), storeKey: storeKey.trim() })
+          }
+        }}
+      >
+        <div className="text-sm font-semibold">Operator console</div>
+        <div className="mt-1 text-xs text-zinc-500">Sign in with your name, the operator token and your store.</div>
+        <input
+          className="mt-4 w-full rounded-xl border border-zinc-200 px-3 py-2 text-sm"
+          placeholder="Your name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <input
+          className="mt-2 w-full rounded-xl border border-zinc-200 px-3 py-2 text-sm"
+          placeholder="Operator token"
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+        />
+        <input
+          className="mt-2 w-full rounded-xl border border-zinc-200 px-3 py-2 text-sm"
+          placeholder="Store key"
+          value={storeKey}
+          onChange={(e) => setStoreKey(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={!name.trim() || !token.trim() || !storeKey.trim()}
+          className="mt-4 w-full rounded-xl bg-zinc-900 py-2 text-sm text-white disabled:opacity-50"
+        >
+          Sign in
+        </button>
+      </form>
+    </div>
+  )
+}
+
+function ConversationList(props: {
+  creds: OperatorCredentials
+  selectedId: string | null
+  refreshKey: number
+  onSelect: (id: string) => void
+}) {
+  const { creds, refreshKey } = props
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [filter, setFilter] = useState<InboxFilter>('all')
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pollKey, setPollKey] = useState(0)
+
+  // Debounce the search box so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const t = setTimeout(() => setSearch(searchInput.trim()), 300)
+    return () => clearTimeout(t)
+  }, [searchInput])
+
+  useEffect(() => {
+    const t = setInterval(() => setPollKey((k) => k + 1), LIST_POLL_MS)
+    return () => clearInterval(t)
+  }, [])
+
+  useEffect(() => {
+    let active = true
+    fetchConversations(creds, { q: search || undefined, ...filterToQuery(filter) })
+      .then((res) => {
+        if (!active) return
+        setConversations(res.conversations)
+        setNextCursor(res.nextCursor)
+        setError(null)
+      })
+      .catch((err) => {
+        if (!active) return
+        setError(errorText(err, 'Failed to load conversations'))
+      })
+    return () => { active = false }
+  }, [creds, search, filter, refreshKey, pollKey])
+
+  async function loadMore() {
+    if (!nextCursor) return
+    try {
+      const res = await fetchConversations(creds, { q: search || undefined, ...filterToQuery(filter), cursor: nextCursor })
+      setConversations((prev) => [...prev, ...res.conversations.filter((c) => !prev.some((p) => p.id === c.id))])
+      setNextCursor(res.nextCursor)
+    } catch (err) {
+      setError(errorText(err, 'Failed to load conversations'))
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col border-r border-zinc-200">
+      <div className="space-y-2 border-b border-zinc-200 p-3">
+        <input
+          className="w-full rounded-xl border border-zinc-200 px-3 py-2 text-sm"
+          placeholder="Search messages or session id…"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-1">
+          {FILTERS.map((f) => (
+            <button
+              key={f.id}
+              onClick={() => setFilter(f.id)}
+              className={`rounded-full px-3 py-1 text-xs ${filter === f.id ? 'bg-zinc-900 text-white' : 'border border-zinc-200 text-zinc-700'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 text-xs text-red-600">{error}</div>}
+
+      <div className="flex-1 overflow-y-auto">
+        {conversations.length === 0 && !error ? (
+          <div className="p-4 text-sm text-zinc-500">No conversations</div>
+        ) : (
+          conversations.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => props.onSelect(c.id)}
+              className={`block w-full border-b border-zinc-100 px-3 py-3 text-left ${props.selectedId === c.id ? 'bg-zinc-100' : 'hover:bg-zinc-50'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate font-mono text-xs text-zinc-500">{c.id.slice(0, 8)}</span>
+                <span className="text-[11px] text-zinc-500">{formatTime(c.last_activity_at)}</span>
+              </div>
+              <div className="mt-1 truncate text-sm text-zinc-800">
+                {c.last_message_text ?? <span className="text-zinc-400">No messages</span>}
+              </div>
+              <div className="mt-1 flex items-center gap-2">
+                <StatusBadge status={c.status} />
+                {c.assigned_operator && <span className="text-[11px] text-zinc-500">{c.assigned_operator}</span>}
+                <span className="ml-auto text-[11px] text-zinc-400">{c.message_count} msgs</span>
+              </div>
+            </button>
+          ))
+        )}
+        {nextCursor && (
+          <button className="w-full py-3 text-xs text-zinc-600 hover:bg-zinc-50" onClick={() => void loadMore()}>
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function TranscriptPane(props: {
+  creds: OperatorCredentials
+  conversationId: string
+  onConversationChanged: () => void
+}) {
+  const { creds, conversationId } = props
+
+  const [conversation, setConversation] = useState<OperatorConversation | null>(null)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [hasMore, setHasMore] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [firstItemIndex, setFirstItemIndex] = useState(FIRST_INDEX)
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [loaded, setLoaded] = useState(false)
+
+  const virtuosoRef = useRef<VirtuosoHandle | null>(null)
+
+  useEffect(() => {
+    let active = true
+    fetchTranscript(creds, { conversationId })
+      .then((res) => {
+        if (!active) return
+        setConversation(res.conversation)
+        setMessages(res.messages)
+        setNextCursor(res.nextCursor)
+        setHasMore(res.messages.length > 0)
+        setLoaded(true)
+        requestAnimationFrame(() => {
+          virtuosoRef.current?.scrollToIndex({ index: res.messages.length - 1, align: 'end', behavior: 'auto' })
+        })
+      })
+      .catch((err) => {
+        if (active) setError(errorText(err, 'Failed to load conversation'))
+      })
+    return () => { active = false }
+  }, [creds, conversationId])
+
+  // New customer/AI messages and ownership changes arrive live once the first page is in
+  useChatSubscription({
+    token: creds.token,
+    sessionId: conversationId,
+    scope: 'operator',
+    storeKey: creds.storeKey,
+    enabled: loaded,
+    onMessage: (m) => setMessages((prev) => upsertMessage(prev, m)),
+    onStatus: (e) => {
+      setConversation((c) => (c ? { ...c, status: e.status, assigned_operator: e.assigned_operator } : c))
+      props.onConversationChanged()
+    }
+  })
+
+  async function loadOlder() {
+    if (!hasMore || !nextCursor || isLoadingMore) return
+    setIsLoadingMore(true)
+    try {
+      const res = await fetchTranscript(creds, { conversationId, cursor: nextCursor })
+      if (res.messages.length === 0) {
+        setHasMore(false)
+        return
+      }
+      setFirstItemIndex((i) => i - res.messages.length)
+      setMessages((prev) => [...res.messages, ...prev])
+      setNextCursor(res.nextCursor)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  async function runAction(action: 'claim' | 'release' | 'close') {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await conversationAction(creds, { conversationId, action })
+      setConversation(res.conversation)
+      props.onConversationChanged()
+    } catch (err) {
+      setError(errorText(err, `Failed to ${action} conversation`))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleReply() {
+    const text = draft.trim()
+    if (!text || busy) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await sendOperatorReply(creds, { conversationId, message: text })
+      setMessages((prev) => upsertMessage(prev, res.message))
+      setDraft('')
+      props.onConversationChanged()
+    } catch (err) {
+      setError(errorText(err, 'Failed to send reply'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const ownedByMe = conversation?.status === 'human' && conversation.assigned_operator === creds.name
+  const canClaim = conversation?.status === 'ai' || conversation?.status === 'pending_human'
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3">
+        <div>
+          <div className="font-mono text-xs text-zinc-500">{conversationId}</div>
+          {conversation && (
+            <div className="mt-1 flex items-center gap-2 text-xs text-zinc-600">
+              <StatusBadge status={conversation.status} />
+              {conversation.assigned_operator && <span>Assigned to {conversation.assigned_operator}</span>}
+              {conversation.escalation_reason && conversation.status === 'pending_human' && (
+                <span>
+                  Escalated {conversation.escalation_reason === 'user_request' ? 'by customer' : 'by AI'}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {canClaim && (
+            <button disabled={busy} onClick={() => void runAction('claim')} className="rounded-xl bg-zinc-900 px-3 py-1.5 text-xs text-white disabled:opacity-50">
+              Claim
+            </button>
+          )}
+          {ownedByMe && (
+            <button disabled={busy} onClick={() => void runAction('release')} className="rounded-xl border border-zinc-200 px-3 py-1.5 text-xs disabled:opacity-50">
+              Hand back to AI
+            </button>
+          )}
+          {conversation && conversation.status !== 'closed' && (conversation.status !== 'human' || ownedByMe) && (
+            <button disabled={busy} onClick={() => void runAction('close')} className="rounded-xl border border-zinc-200 px-3 py-1.5 text-xs disabled:opacity-50">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 py-2">
+        <Virtuoso
+          ref={virtuosoRef}
+          data={messages}
+          firstItemIndex={firstItemIndex}
+          startReached={loadOlder}
+          followOutput="auto"
+          itemContent={(_, m) => (
+            <div className="px-4 py-2">
+              <div className={`flex ${m.role === 'user' ? 'justify-start' : 'justify-end'}`}>
+                <div
+                  className={`max-w-[75%] rounded-2xl px-3 py-2 text-sm ${m.role === 'user'
+                    ? 'bg-zinc-100 text-zinc-900'
+                    : m.role === 'agent'
+                      ? 'bg-emerald-600 text-white'
+                      : 'bg-zinc-900 text-white'
+                    }`}
+                >
+                  <div className="mb-1 text-[11px] opacity-70">
+                    {m.role === 'user' ? 'Customer' : m.role === 'agent' ? 'Operator' : 'AI'} · {formatTime(m.created_at)}
+                  </div>
+                  {m.text}
+                  {m.interrupted && <div className="mt-1 text-[11px] opacity-70">Reply interrupted</div>}
+                </div>
+              </div>
+            </div>
+          )}
+        />
+      </div>
+
+      <div className="border-t border-zinc-200 px-4 py-4">
+        {error && <div className="mb-2 text-xs text-red-600">{error}</div>}
+        <div className="flex gap-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                void handleReply()
+              }
+            }}
+            disabled={!ownedByMe}
+            rows={2}
+            className="flex-1 resize-none rounded-xl border border-zinc-200 px-3 py-2 text-sm disabled:bg-zinc-50"
+            placeholder={ownedByMe ? 'Reply to the customer…' : 'Claim this conversation to reply'}
+          />
+          <button
+            disabled={!ownedByMe || busy || !draft.trim()}
+            onClick={() => void handleReply()}
+            className="rounded-xl bg-zinc-900 px-4 text-sm text-white disabled:opacity-50"
+          >
+            Send
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Operator inbox (served at /operator): conversation list with search and
+ * status filters on the left, transcript with claim/reply/release on the right.
+ */
+export default function OperatorConsole() {
+  const [creds, setCreds] = useState<OperatorCredentials | null>(() => loadOperatorCredentials())
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  if (!creds) {
+    return (
+      <OperatorLogin
+        onSignIn={(c) => {
+          saveOperatorCredentials(c)
+          setCreds(c)
+        }}
+      />
+    )
+  }
+
+  function signOut() {
+    clearOperatorCredentials()
+    setCreds(null)
+    setSelectedId(null)
+  }
+
+  return (
+    <div className="flex h-screen flex-col bg-white text-zinc-900">
+      <header className="flex items-center justify-between border-b border-zinc-200 px-4 py-3">
+        <div className="text-sm font-semibold">Spur · Operator inbox</div>
+        <div className="flex items-center gap-3 text-xs text-zinc-600">
+          <span>
+            {creds.name} · {creds.storeKey}
+          </span>
+          <button className="rounded-lg border border-zinc-200 px-2 py-1" onClick={signOut}>
+            Sign out
+          </button>
+        </div>
+      </header>
+      <div className="grid min-h-0 flex-1 grid-cols-[340px_1fr]">
+        <ConversationList
+          creds={creds}
+          selectedId={selectedId}
+          refreshKey={refreshKey}
+          onSelect={setSelectedId}
+        />
+        {selectedId ? (
+          <TranscriptPane
+            key={selectedId}
+            creds={creds}
+            conversationId={selectedId}
+            onConversationChanged={() => setRefreshKey((k) => k + 1)}
+          />
+        ) : (
+          <div className="flex items-center justify-center text-sm text-zinc-500">Select a conversation</div>
+        )}
+      </div>
+    </div>
+  )
+}
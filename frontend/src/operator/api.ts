@@ -0,0 +1,68 @@
+import { apiUrl, fetchJson } from '../chat/api'
+import type { ConversationStatus } from '../chat/types'
+import type {
+  ConversationActionResponse,
+  ConversationListResponse,
+  OperatorCredentials,
+  OperatorReplyResponse,
+  TranscriptResponse
+} from './types'
+
+function authHeaders(creds: OperatorCredentials) {
+  return {
+    Accept: 'application/json',
+    Authorization: `Bearer ${creds.token}`,
+    'X-Store-Key': creds.storeKey
+  }
+}
+
+export async function fetchConversations(
+  creds: OperatorCredentials,
+  args: { q?: string; statuses?: ConversationStatus[]; mine?: boolean; cursor?: string | null }
+) {
+  const url = new URL(apiUrl('/api/v1/chat/conversations'))
+  if (args.q) url.searchParams.set('q', args.q)
+  if (args.statuses && args.statuses.length > 0) url.searchParams.set('status', args.statuses.join(','))
+  if (args.mine) url.searchParams.set('operator', creds.name)
+  if (args.cursor) url.searchParams.set('cursor', args.cursor)
+
+  return await fetchJson<ConversationListResponse>(url, {
+    method: 'GET',
+    headers: authHeaders(creds)
+  })
+}
+
+export async function fetchTranscript(creds: OperatorCredentials, args: { conversationId: string; cursor?: string }) {
+  const url = new URL(apiUrl(`/api/v1/chat/conversations/${args.conversationId}/messages`))
+  if (args.cursor) url.searchParams.set('cursor', args.cursor)
+
+  return await fetchJson<TranscriptResponse>(url, {
+    method: 'GET',
+    headers: authHeaders(creds)
+  })
+}
+
+export async function conversationAction(
+  creds: OperatorCredentials,
+  args: { conversationId: string; action: 'claim' | 'release' | 'close' }
+) {
+  return await fetchJson<ConversationActionResponse>(
+    apiUrl(`/api/v1/operator/conversations/${args.conversationId}/${args.action}`),
+    {
+      method: 'POST',
+      headers: { ...authHeaders(creds), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operator: creds.name })
+    }
+  )
+}
+
+export async function sendOperatorReply(creds: OperatorCredentials, args: { conversationId: string; message: string }) {
+  return await fetchJson<OperatorReplyResponse>(
+    apiUrl(`/api/v1/operator/conversations/${args.conversationId}/reply`),
+    {
+      method: 'POST',
+      headers: { ...authHeaders(creds), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operator: creds.name, message: args.message })
+    }
+  )
+}
@@ -0,0 +1,26 @@
+import type { OperatorCredentials } from './types'
+
+const OPERATOR_KEY = 'spur_operator_credentials'
+
+// Kept in sessionStorage so the operator token doesn't outlive the browser tab
+export function loadOperatorCredentials(): OperatorCredentials | null {
+  const raw = sessionStorage.getItem(OPERATOR_KEY)
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw) as Partial<OperatorCredentials>
+    if (typeof parsed.token === 'string' && typeof parsed.name === 'string') {
+      return { token: parsed.token, name: parsed.name, storeKey: parsed.storeKey ?? 'default' }
+    }
+  } catch {
+    // fall through to signed-out
+  }
+  return null
+}
+
+export function saveOperatorCredentials(creds: OperatorCredentials) {
+  sessionStorage.setItem(OPERATOR_KEY, JSON.stringify(creds))
+}
+
+export function clearOperatorCredentials() {
+  sessionStorage.removeItem(OPERATOR_KEY)
+}
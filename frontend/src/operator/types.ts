@@ -0,0 +1,43 @@
+import type { ChatMessage, ChatSender, ConversationStatus } from '../chat/types'
+
+export type OperatorConversation = {
+  id: string
+  status: ConversationStatus
+  assigned_operator: string | null
+  escalation_reason: string | null
+  escalated_at: string | null
+  last_activity_at: string
+  created_at: string
+}
+
+export type ConversationSummary = OperatorConversation & {
+  message_count: number
+  last_message_sender: ChatSender | null
+  last_message_text: string | null
+}
+
+export type ConversationListResponse = {
+  conversations: ConversationSummary[]
+  nextCursor: string | null
+}
+
+export type TranscriptResponse = {
+  conversation: OperatorConversation
+  messages: ChatMessage[]
+  nextCursor: string | null
+}
+
+export type ConversationActionResponse = {
+  conversation: OperatorConversation
+}
+
+export type OperatorReplyResponse = {
+  message: ChatMessage
+}
+
+export type OperatorCredentials = {
+  token: string
+  name: string
+  // The store whose inbox this console shows
+  storeKey: string
+}
@@ -0,0 +1,29 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+import tailwindcss from '@tailwindcss/vite'
+
+// Embeddable widget: `npm run build:embed` writes dist-embed/spur-chat.js, a single
+// self-contained script (React and the widget's CSS included) exposing window.SpurChat.
+export default defineConfig({
+  plugins: [
+    react({
+      babel: {
+        plugins: [['babel-plugin-react-compiler']],
+      },
+    }),
+    tailwindcss(),
+  ],
+  // Library builds leave process.env.NODE_ENV to the consumer; a plain <script> has none
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist-embed',
+    lib: {
+      entry: 'src/embed.tsx',
+      name: 'SpurChat',
+      formats: ['iife'],
+      fileName: () => 'spur-chat.js',
+    },
+  },
+})